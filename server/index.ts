@@ -0,0 +1,223 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { RecordingIndex } from './recordingIndex';
+import type { Mp3SeekIndex } from '../src/utils/mp3SeekIndex';
+
+/**
+ * Recording index service.
+ *
+ * Lists the hourly recordings found under AUDIO_FOLDER_PATH and streams them with HTTP Range
+ * support. Point it at a local directory to work without the production share:
+ *
+ *   AUDIO_FOLDER_PATH=./audio npm run server
+ */
+
+const PORT = Number(process.env.PORT) || 3001;
+const AUDIO_FOLDER_PATH = path.resolve(process.env.AUDIO_FOLDER_PATH || process.argv[2] || './audio');
+
+const index = new RecordingIndex(AUDIO_FOLDER_PATH);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Range',
+  'Access-Control-Expose-Headers': 'Accept-Ranges, Content-Length, Content-Range',
+  // The app is served with COEP require-corp (needed by ffmpeg.wasm)
+  'Cross-Origin-Resource-Policy': 'cross-origin',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Parses a single-range "bytes=" header. Returns null when absent, 'invalid' when unsatisfiable.
+ */
+const parseRange = (header: string | undefined, size: number): { start: number; end: number } | null | 'invalid' => {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return 'invalid';
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) return 'invalid';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) return 'invalid';
+  return { start, end };
+};
+
+const serveAudio = async (req: IncomingMessage, res: ServerResponse, canal: string, date: string, hour: string) => {
+  const filePath = index.resolveFile(canal, date, hour);
+  if (!filePath) {
+    sendJson(res, 400, { error: 'Chemin de fichier invalide' });
+    return;
+  }
+
+  let size: number;
+  let mtime: Date;
+  try {
+    const stats = await fs.stat(filePath);
+    size = stats.size;
+    mtime = stats.mtime;
+  } catch {
+    sendJson(res, 404, { error: `Aucun enregistrement pour ${canal} ${date} ${hour}:00` });
+    return;
+  }
+
+  const headers = {
+    ...CORS_HEADERS,
+    'Content-Type': 'audio/mpeg',
+    'Accept-Ranges': 'bytes',
+    'Last-Modified': mtime.toUTCString(),
+  };
+
+  const range = parseRange(req.headers.range, size);
+
+  if (range === 'invalid') {
+    res.writeHead(416, { ...headers, 'Content-Range': `bytes */${size}` });
+    res.end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+
+  res.writeHead(range ? 206 : 200, {
+    ...headers,
+    'Content-Length': end - start + 1,
+    ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {}),
+  });
+
+  if (req.method === 'HEAD' || size === 0) {
+    res.end();
+    return;
+  }
+
+  const stream = createReadStream(filePath, { start, end });
+  stream.on('error', (error) => {
+    console.error(`Error streaming ${filePath}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+// Lets clients fetch a time span of a recording with a Range request (see src/utils/mp3SeekIndex.ts)
+const serveSeekIndex = async (res: ServerResponse, canal: string, date: string, hour: string) => {
+  const filePath = index.resolveFile(canal, date, hour);
+  if (!filePath) {
+    sendJson(res, 400, { error: 'Chemin de fichier invalide' });
+    return;
+  }
+
+  let seekIndex: Mp3SeekIndex | null;
+  try {
+    seekIndex = await index.getSeekIndex(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    sendJson(res, 404, { error: `Aucun enregistrement pour ${canal} ${date} ${hour}:00` });
+    return;
+  }
+
+  if (!seekIndex) {
+    sendJson(res, 422, { error: 'Enregistrement illisible' });
+    return;
+  }
+  sendJson(res, 200, seekIndex);
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { ...CORS_HEADERS, 'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS' });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendJson(res, 405, { error: 'Méthode non autorisée' });
+    return;
+  }
+
+  const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding
+    sendJson(res, 400, { error: 'Chemin invalide' });
+    return;
+  }
+
+  // GET /api/channels/:canal/dates
+  if (segments.length === 4 && segments[0] === 'api' && segments[1] === 'channels' && segments[3] === 'dates') {
+    sendJson(res, 200, { dates: await index.listDates(segments[2]) });
+    return;
+  }
+
+  // GET /api/channels/:canal/availability?from=yyyy-MM-dd&to=yyyy-MM-dd
+  if (segments.length === 4 && segments[0] === 'api' && segments[1] === 'channels' && segments[3] === 'availability') {
+    const canal = segments[2];
+    const from = searchParams.get('from') ?? '';
+    const to = searchParams.get('to') ?? '';
+    if (!index.isValidCanal(canal) || !index.isValidDate(from) || !index.isValidDate(to)) {
+      sendJson(res, 400, { error: 'Canal ou période invalide' });
+      return;
+    }
+    sendJson(res, 200, { days: await index.getAvailability(canal, from, to) });
+    return;
+  }
+
+  // GET /api/channels/:canal/dates/:date/recordings
+  if (segments.length === 6 && segments[0] === 'api' && segments[1] === 'channels' && segments[3] === 'dates' && segments[5] === 'recordings') {
+    const [, , canal, , date] = segments;
+    if (!index.isValidCanal(canal) || !index.isValidDate(date)) {
+      sendJson(res, 400, { error: 'Canal ou date invalide' });
+      return;
+    }
+    sendJson(res, 200, { recordings: await index.listRecordings(canal, date) });
+    return;
+  }
+
+  // GET /api/audio/:canal/:date/:HH.mp3
+  if (segments.length === 5 && segments[0] === 'api' && segments[1] === 'audio') {
+    const hourMatch = /^(\d{2})\.mp3$/i.exec(segments[4]);
+    if (hourMatch) {
+      await serveAudio(req, res, segments[2], segments[3], hourMatch[1]);
+      return;
+    }
+  }
+
+  // GET /api/audio/:canal/:date/:HH/frames
+  if (segments.length === 6 && segments[0] === 'api' && segments[1] === 'audio' && segments[5] === 'frames') {
+    const [, , canal, date, hour] = segments;
+    await serveSeekIndex(res, canal, date, hour);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Ressource introuvable' });
+};
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('Unhandled error:', error);
+    if (!res.headersSent) {
+      sendJson(res, 500, { error: 'Erreur interne du serveur' });
+    } else {
+      res.destroy();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Recording index serving ${AUDIO_FOLDER_PATH} on http://localhost:${PORT}`);
+});
@@ -0,0 +1,309 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { findFrameSync, isSilentFrame, isVbrHeaderFrame, parseFrameHeader, parseMp3Info } from '../src/utils/mp3Parser';
+import type { Mp3SeekIndex } from '../src/utils/mp3SeekIndex';
+import type { RecordingCodecInfo, RecordingInfo } from '../src/utils/recordingTypes';
+import { DayAvailability, getRecordingStatus } from '../src/utils/recordingStatus';
+
+export type RecordingEntry = Omit<RecordingInfo, 'url'>;
+
+const CANAL_PATTERN = /^[\w-]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HOUR_FILE_PATTERN = /^(\d{2})\.mp3$/i;
+
+// Bytes read at the start of each file to find the first frame and the Xing/VBRI header
+const HEAD_SIZE = 64 * 1024;
+
+// Silence is estimated from a few windows spread over the file, each a handful of frames long
+const SILENCE_PROBES = 32;
+const SILENCE_PROBE_SIZE = 16 * 1024;
+
+// Seek index: a seek point every 38 frames (about a second at 44.1 kHz), built by reading the file in chunks
+const SEEK_STEP = 38;
+const SCAN_CHUNK_SIZE = 1024 * 1024;
+const SEEK_CACHE_SIZE = 64;
+
+// Days indexed at once for the availability, each opening up to 24 files
+const AVAILABILITY_CONCURRENCY = 2;
+
+interface CachedEntry {
+  size: number;
+  mtimeMs: number;
+  entry: RecordingEntry;
+}
+
+interface CachedSeekIndex {
+  size: number;
+  mtimeMs: number;
+  index: Mp3SeekIndex | null;
+}
+
+/**
+ * Walks an audio logger tree laid out as `<root>/<canal>/<yyyy-MM-dd>/<HH>.mp3`.
+ * Stream information is cached per file and refreshed when its size or mtime changes,
+ * so the hour that is still being recorded is re-read on every listing.
+ */
+export class RecordingIndex {
+  private readonly cache = new Map<string, CachedEntry>();
+  private readonly seekCache = new Map<string, CachedSeekIndex>();
+
+  constructor(readonly root: string) {}
+
+  isValidCanal(canal: string) {
+    return CANAL_PATTERN.test(canal);
+  }
+
+  isValidDate(date: string) {
+    return DATE_PATTERN.test(date);
+  }
+
+  resolveFile(canal: string, date: string, hour: string): string | null {
+    if (!this.isValidCanal(canal) || !this.isValidDate(date) || !/^\d{2}$/.test(hour)) return null;
+    return path.join(this.root, canal, date, `${hour}.mp3`);
+  }
+
+  async listDates(canal: string): Promise<string[]> {
+    if (!this.isValidCanal(canal)) return [];
+
+    const entries = await readDirectory(path.join(this.root, canal));
+    return entries
+      .filter((entry) => entry.isDirectory() && DATE_PATTERN.test(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  async listRecordings(canal: string, date: string): Promise<RecordingEntry[]> {
+    if (!this.isValidCanal(canal) || !this.isValidDate(date)) return [];
+
+    const folder = path.join(this.root, canal, date);
+    const entries = await readDirectory(folder);
+    const files = entries
+      .filter((entry) => entry.isFile() && HOUR_FILE_PATTERN.test(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+
+    const recordings = await Promise.all(
+      files.map((fileName) => this.getRecording(canal, date, fileName).catch((error) => {
+        console.error(`Failed to index ${path.join(folder, fileName)}:`, error);
+        return null;
+      }))
+    );
+
+    return recordings.filter((recording): recording is RecordingEntry => recording !== null);
+  }
+
+  // Status of each recorded hour, for the days of a canal between two dates (inclusive)
+  async getAvailability(canal: string, from: string, to: string): Promise<DayAvailability[]> {
+    const dates = (await this.listDates(canal)).filter((date) => date >= from && date <= to);
+
+    return mapWithConcurrency(dates, AVAILABILITY_CONCURRENCY, async (date) => {
+      const hours: DayAvailability['hours'] = {};
+      for (const recording of await this.listRecordings(canal, date)) {
+        const status = getRecordingStatus(recording);
+        if (status !== 'missing') hours[recording.hour] = status;
+      }
+      return { date, hours };
+    });
+  }
+
+  /**
+   * Seek index of a recording, or null when it is not an MP3. Fails when the file does not exist.
+   * Built once per version of the file, the most recently used ones being kept.
+   */
+  async getSeekIndex(filePath: string): Promise<Mp3SeekIndex | null> {
+    const stats = await fs.stat(filePath);
+
+    const cached = this.seekCache.get(filePath);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      this.seekCache.delete(filePath);
+      this.seekCache.set(filePath, cached);
+      return cached.index;
+    }
+
+    const index = await readSeekIndex(filePath, stats.size);
+    this.seekCache.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, index });
+    if (this.seekCache.size > SEEK_CACHE_SIZE) {
+      this.seekCache.delete(this.seekCache.keys().next().value as string);
+    }
+    return index;
+  }
+
+  private async getRecording(canal: string, date: string, fileName: string): Promise<RecordingEntry> {
+    const filePath = path.join(this.root, canal, date, fileName);
+    const stats = await fs.stat(filePath);
+
+    const cached = this.cache.get(filePath);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      return cached.entry;
+    }
+
+    const hour = fileName.match(HOUR_FILE_PATTERN)![1];
+    const { codec, duration, silence } = await readStreamInfo(filePath, stats.size);
+
+    const entry: RecordingEntry = {
+      canal,
+      date,
+      hour,
+      fileName,
+      size: stats.size,
+      duration,
+      lastModified: stats.mtime.toISOString(),
+      codec,
+      silence,
+    };
+
+    this.cache.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, entry });
+    return entry;
+  }
+}
+
+// Like Promise.all over the items, with at most `limit` of them being processed at a time
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+const readDirectory = async (folder: string) => {
+  try {
+    return await fs.readdir(folder, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+/**
+ * Share of the probed windows in which every frame is silent, or null when no frame could be read.
+ */
+const measureSilence = async (handle: fs.FileHandle, audioStart: number, audioEnd: number): Promise<number | null> => {
+  const buffer = Buffer.alloc(SILENCE_PROBE_SIZE);
+  let probed = 0;
+  let silent = 0;
+
+  for (let probe = 0; probe < SILENCE_PROBES; probe++) {
+    const position = audioStart + Math.floor(((audioEnd - audioStart) * probe) / SILENCE_PROBES);
+    const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, audioEnd - position), position);
+    const bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, bytesRead);
+
+    let offset = findFrameSync(bytes);
+    let frames = 0;
+    let silentFrames = 0;
+    for (let header = offset >= 0 ? parseFrameHeader(bytes, offset) : null; header && offset + header.frameLength <= bytes.length; header = parseFrameHeader(bytes, offset)) {
+      frames++;
+      if (isSilentFrame(bytes, offset, header)) silentFrames++;
+      offset += header.frameLength;
+    }
+
+    if (frames === 0) continue;
+    probed++;
+    if (silentFrames === frames) silent++;
+  }
+
+  return probed > 0 ? silent / probed : null;
+};
+
+const readStreamInfo = async (filePath: string, size: number): Promise<{ codec: RecordingCodecInfo | null; duration: number; silence: number | null }> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(Math.min(HEAD_SIZE, size));
+    await handle.read(head, 0, head.length, 0);
+
+    const tail = Buffer.alloc(Math.min(128, size));
+    await handle.read(tail, 0, tail.length, size - tail.length);
+
+    const info = parseMp3Info(new Uint8Array(head), size, new Uint8Array(tail));
+    if (!info) {
+      return { codec: null, duration: 0, silence: null };
+    }
+
+    return {
+      duration: Math.round(info.duration * 1000) / 1000,
+      silence: await measureSilence(handle, info.audioStart, info.audioEnd),
+      codec: {
+        format: 'mp3',
+        version: `MPEG-${info.header.version}`,
+        layer: info.header.layer,
+        bitrate: Math.round(info.bitrate),
+        sampleRate: info.header.sampleRate,
+        channels: info.header.channels,
+        vbr: info.vbr,
+      },
+    };
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Walks every frame of a file to note the offset of one frame in SEEK_STEP.
+ */
+const readSeekIndex = async (filePath: string, size: number): Promise<Mp3SeekIndex | null> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(Math.min(HEAD_SIZE, size));
+    await handle.read(head, 0, head.length, 0);
+
+    const tail = Buffer.alloc(Math.min(128, size));
+    await handle.read(tail, 0, tail.length, size - tail.length);
+
+    const info = parseMp3Info(new Uint8Array(head), size, new Uint8Array(tail));
+    if (!info) return null;
+
+    // The Xing/Info frame carries no audio
+    let position = info.audioStart;
+    if (isVbrHeaderFrame(new Uint8Array(head), info.audioStart, info.header)) {
+      position += info.header.frameLength;
+    }
+
+    const buffer = Buffer.alloc(SCAN_CHUNK_SIZE);
+    const offsets: number[] = [];
+    let frameCount = 0;
+
+    while (position + 4 <= info.audioEnd) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, info.audioEnd - position), position);
+      const bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, bytesRead);
+
+      // Complete frames of the chunk; the one cut at its end is read again with the next chunk
+      let offset = 0;
+      while (offset + 4 <= bytes.length) {
+        const header = parseFrameHeader(bytes, offset);
+        if (!header) {
+          const resync = findFrameSync(bytes, offset + 1);
+          offset = resync >= 0 ? resync : Math.max(offset + 1, bytes.length - 3);
+          if (resync < 0) break;
+          continue;
+        }
+        if (offset + header.frameLength > bytes.length) break;
+
+        if (frameCount % SEEK_STEP === 0) offsets.push(position + offset);
+        frameCount++;
+        offset += header.frameLength;
+      }
+
+      if (offset === 0) break;
+      position += offset;
+    }
+
+    if (frameCount === 0) return null;
+
+    return {
+      sampleRate: info.header.sampleRate,
+      samplesPerFrame: info.header.samplesPerFrame,
+      frameCount,
+      encoderDelay: info.encoderDelay,
+      step: SEEK_STEP,
+      offsets,
+      end: position,
+    };
+  } finally {
+    await handle.close();
+  }
+};
@@ -4,11 +4,32 @@ import { Progress } from "@/components/ui/progress";
 import { Upload, FileAudio2, Download } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  BitrateMode,
+  CONVERSION_FORMATS,
+  ConversionFormat,
+  ConversionOptions,
+  DEFAULT_CONVERSION_OPTIONS,
+  convertAudio,
+  getConvertedFileName
+} from "@/utils/audioConversion";
+
+const BITRATES = [64, 96, 128, 160, 192, 256, 320];
+const VBR_QUALITIES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
 
 export const AudioConverter = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isConverting, setIsConverting] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [options, setOptions] = useState<ConversionOptions>(DEFAULT_CONVERSION_OPTIONS);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const handleFileSelection = (fileList: FileList | null) => {
@@ -16,9 +37,9 @@ export const AudioConverter = () => {
     
     const file = fileList[0];
     
-    // Check if it's a WAV file
-    if (file.type !== 'audio/wav' && !file.name.toLowerCase().endsWith('.wav')) {
-      toast.error("Veuillez sélectionner un fichier WAV");
+    // Check if it's an audio file
+    if (!file.type.startsWith('audio/') && !/\.(wav|mp3|ogg|opus|flac|m4a|aac|aiff?)$/i.test(file.name)) {
+      toast.error("Veuillez sélectionner un fichier audio");
       return;
     }
     
@@ -42,10 +63,14 @@ export const AudioConverter = () => {
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     handleFileSelection(e.target.files);
   };
+
+  const updateOptions = (changes: Partial<ConversionOptions>) => {
+    setOptions((previous) => ({ ...previous, ...changes }));
+  };
   
-  const convertToMp3 = async () => {
+  const convert = async () => {
     if (!selectedFile) {
-      toast.error("Veuillez d'abord sélectionner un fichier WAV");
+      toast.error("Veuillez d'abord sélectionner un fichier audio");
       return;
     }
     
@@ -53,47 +78,11 @@ export const AudioConverter = () => {
     setProgress(0);
     
     try {
-      toast.info("Lecture du fichier WAV...");
-      
-      // Read the WAV file
-      const arrayBuffer = await selectedFile.arrayBuffer();
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      // Update progress
-      setProgress(20);
-      
-      // Decode the audio data
-      toast.info("Décodage du fichier audio...");
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      
-      // Update progress
-      setProgress(40);
-      
-      // Convert to MP3
-      toast.info("Conversion en MP3...");
-      
-      // Extract PCM data from the buffer
-      const left = audioBuffer.getChannelData(0);
-      const right = audioBuffer.numberOfChannels > 1 ? audioBuffer.getChannelData(1) : left;
-      
-      const sampleRate = audioBuffer.sampleRate;
-      const channels = audioBuffer.numberOfChannels;
-      
-      setProgress(60);
-      
-      // Create a WAV file instead of MP3 due to lamejs compatibility issues
-      const wav = createWaveFileData(audioBuffer);
-      
-      setProgress(80);
-      
-      // Create blob and download
-      const blob = new Blob([wav], { type: 'audio/wav' });
-      const url = URL.createObjectURL(blob);
-      
-      // Create filename (keeping .wav extension since we're saving as WAV)
-      const outputFileName = selectedFile.name.replace(/\.wav$/i, '_converted.wav');
-      
+      const blob = await convertAudio(selectedFile, options, (ratio) => setProgress(ratio * 100));
+      const outputFileName = getConvertedFileName(selectedFile.name, options.format);
+
       // Trigger download
+      const url = URL.createObjectURL(blob);
       const downloadLink = document.createElement('a');
       downloadLink.href = url;
       downloadLink.download = outputFileName;
@@ -101,7 +90,6 @@ export const AudioConverter = () => {
       downloadLink.click();
       document.body.removeChild(downloadLink);
       
-      // Complete
       setProgress(100);
       toast.success(`Conversion réussie! ${outputFileName} a été téléchargé.`);
       
@@ -111,7 +99,9 @@ export const AudioConverter = () => {
       }, 1000);
     } catch (error) {
       console.error('Error during conversion:', error);
-      toast.error("Erreur lors de la conversion. Veuillez réessayer.");
+      toast.error("Erreur lors de la conversion. Veuillez réessayer.", {
+        description: error instanceof Error ? error.message : undefined
+      });
     } finally {
       // Reset after a delay
       setTimeout(() => {
@@ -120,61 +110,9 @@ export const AudioConverter = () => {
       }, 1500);
     }
   };
-  
-  // Function to create WAV file from AudioBuffer
-  const createWaveFileData = (audioBuffer: AudioBuffer): ArrayBuffer => {
-    const numOfChannels = audioBuffer.numberOfChannels;
-    const length = audioBuffer.length * numOfChannels * 2 + 44;
-    const buffer = new ArrayBuffer(length);
-    const view = new DataView(buffer);
-    const channels = [];
-    
-    // Get audio channels data
-    for (let i = 0; i < numOfChannels; i++) {
-      channels.push(audioBuffer.getChannelData(i));
-    }
-    
-    // WAV header
-    // RIFF chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, length - 8, true);
-    writeString(view, 8, 'WAVE');
-    
-    // FMT sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // subchunk size
-    view.setUint16(20, 1, true); // PCM format
-    view.setUint16(22, numOfChannels, true); // num of channels
-    view.setUint32(24, audioBuffer.sampleRate, true); // sample rate
-    view.setUint32(28, audioBuffer.sampleRate * numOfChannels * 2, true); // byte rate
-    view.setUint16(32, numOfChannels * 2, true); // block align
-    view.setUint16(34, 16, true); // bits per sample
-    
-    // Data sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, length - 44, true);
-    
-    // Write audio data
-    const volume = 1;
-    let index = 44;
-    
-    for (let i = 0; i < audioBuffer.length; i++) {
-      for (let channel = 0; channel < numOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, channels[channel][i]));
-        const val = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-        view.setInt16(index, val, true);
-        index += 2;
-      }
-    }
-    
-    return buffer;
-  };
-  
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
+
+  const format = CONVERSION_FORMATS[options.format];
+  const usesVbr = options.format === 'mp3' && options.bitrateMode === 'vbr';
   
   return (
     <div className="space-y-4 animate-fade-in">
@@ -190,7 +128,7 @@ export const AudioConverter = () => {
           type="file" 
           className="hidden" 
           ref={fileInputRef} 
-          accept=".wav,audio/wav" 
+          accept="audio/*,.wav,.mp3,.ogg,.opus,.flac,.m4a,.aac,.aif,.aiff" 
           onChange={handleFileInput}
         />
         
@@ -215,12 +153,12 @@ export const AudioConverter = () => {
               <Button 
                 variant="default" 
                 size="sm"
-                onClick={convertToMp3}
+                onClick={convert}
                 disabled={isConverting}
                 className="transition-all duration-300 hover:shadow-md hover:translate-y-[-1px]"
               >
                 <Download className="h-4 w-4 mr-2" />
-                {isConverting ? "Conversion..." : "Convertir"}
+                {isConverting ? "Conversion..." : `Convertir en ${format.label}`}
               </Button>
             </div>
           </div>
@@ -228,15 +166,98 @@ export const AudioConverter = () => {
           <>
             <Upload className="h-8 w-8 mb-2 text-muted-foreground" />
             <h4 className="text-sm font-medium">
-              Glissez un fichier WAV ou cliquez pour parcourir
+              Glissez un fichier audio ou cliquez pour parcourir
             </h4>
             <p className="text-xs text-muted-foreground mt-1">
-              Uniquement les fichiers WAV sont supportés
+              WAV, MP3, Ogg, Opus, FLAC, AAC...
             </p>
           </>
         )}
       </div>
       
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Format</Label>
+          <Select
+            value={options.format}
+            onValueChange={(value) => updateOptions({ format: value as ConversionFormat })}
+            disabled={isConverting}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CONVERSION_FORMATS) as ConversionFormat[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {CONVERSION_FORMATS[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {options.format === "mp3" && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Débit</Label>
+            <Select
+              value={options.bitrateMode}
+              onValueChange={(value) => updateOptions({ bitrateMode: value as BitrateMode })}
+              disabled={isConverting}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cbr">Constant (CBR)</SelectItem>
+                <SelectItem value="vbr">Variable (VBR)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {usesVbr ? (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Qualité</Label>
+            <Select
+              value={options.vbrQuality.toString()}
+              onValueChange={(value) => updateOptions({ vbrQuality: Number(value) })}
+              disabled={isConverting}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VBR_QUALITIES.map((quality) => (
+                  <SelectItem key={quality} value={quality.toString()}>
+                    V{quality}{quality === 0 ? " (meilleure)" : quality === 9 ? " (plus léger)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : format.hasBitrate && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Bitrate</Label>
+            <Select
+              value={options.bitrate.toString()}
+              onValueChange={(value) => updateOptions({ bitrate: Number(value) })}
+              disabled={isConverting}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BITRATES.map((bitrate) => (
+                  <SelectItem key={bitrate} value={bitrate.toString()}>
+                    {bitrate} kbps
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      
       {isConverting && (
         <div className="space-y-2 animate-fade-in">
           <div className="flex justify-between items-center">
@@ -253,7 +274,7 @@ export const AudioConverter = () => {
       
       <div className="text-xs text-muted-foreground mt-4 p-3 bg-muted/50 rounded-md">
         <p>
-          <strong>Comment utiliser:</strong> Sélectionnez un fichier WAV, puis cliquez sur "Convertir" pour le télécharger au format optimisé.
+          <strong>Comment utiliser:</strong> Sélectionnez un fichier audio, choisissez le format de sortie, puis cliquez sur "Convertir" pour le télécharger.
         </p>
       </div>
     </div>
@@ -1,6 +1,6 @@
 
 import { Button } from "@/components/ui/button";
-import { Scissors, FileDown, Download } from "lucide-react";
+import { Scissors, FileDown, Download, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { AudioMarker } from "@/hooks/useAudio";
 import {
@@ -10,47 +10,74 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Progress } from "@/components/ui/progress";
-import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useState } from "react";
+import { useSettings } from "@/contexts/SettingsContext";
+import { ExportOptionsFields } from "./ExportOptionsFields";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportOptions,
+  describeExportOptions,
+  isSameExportOptions,
+  withExportDefaults
+} from "@/utils/exportOptions";
 
 interface AudioExporterProps {
   markers: AudioMarker[];
-  onExport: () => void;
+  exportOptions: ExportOptions;
+  onExport: (options: ExportOptions) => void;
+  onCancel?: () => void;
+  progress?: number | null; // from 0 to 1, null until the export reports it
   isExporting: boolean;
   formatTimeDetailed: (time: number) => string;
   canExport: boolean;
 }
 
+const CUSTOM_PRESET = "custom";
+
 export const AudioExporter = ({
   markers,
+  exportOptions,
   onExport,
+  onCancel,
+  progress = null,
   isExporting,
   formatTimeDetailed,
   canExport,
 }: AudioExporterProps) => {
   const startMarker = markers.find((marker) => marker.type === "start");
   const endMarker = markers.find((marker) => marker.type === "end");
-  const [progress, setProgress] = useState(0);
+  const [showOptions, setShowOptions] = useState(false);
+  const [draftOptions, setDraftOptions] = useState(exportOptions);
+  const { settings } = useSettings();
 
-  // Simulate progress when exporting
-  useEffect(() => {
-    if (isExporting) {
-      setProgress(0);
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          const newValue = prev + (2 + Math.random() * 3);
-          return newValue < 95 ? newValue : 95;
-        });
-      }, 200);
-      
-      return () => {
-        clearInterval(interval);
-        // When finished, set to 100%
-        setTimeout(() => setProgress(100), 300);
-        // Then reset after a delay
-        setTimeout(() => setProgress(0), 1000);
-      };
-    }
-  }, [isExporting]);
+  const presets = settings?.exportPresets ?? [];
+  const presetIndex = presets.findIndex((preset) => isSameExportOptions(preset.options, draftOptions));
+
+  const openOptions = () => {
+    setDraftOptions(exportOptions);
+    setShowOptions(true);
+  };
+
+  const handleConfirmExport = () => {
+    setShowOptions(false);
+    onExport(draftOptions);
+  };
 
   return (
     <div className="space-y-3">
@@ -73,7 +100,7 @@ export const AudioExporter = ({
             <div className="space-y-2">
               <Button
                 disabled={!canExport || isExporting}
-                onClick={onExport}
+                onClick={openOptions}
                 className="w-full transition-all duration-300 hover:shadow-md hover:translate-y-[-1px]"
               >
                 {isExporting ? (
@@ -84,13 +111,21 @@ export const AudioExporter = ({
                 {isExporting ? "Traitement en cours..." : "Exporter l'audio"}
                 {isExporting && (
                   <Badge variant="outline" className="ml-2 animate-pulse">
-                    Patientez...
+                    {progress === null ? "Patientez..." : `${Math.round(progress * 100)} %`}
                   </Badge>
                 )}
               </Button>
               
               {isExporting && (
-                <Progress value={progress} className="h-2 w-full" />
+                <div className="flex items-center gap-2">
+                  <Progress value={(progress ?? 0) * 100} className="h-2 flex-1" />
+                  {onCancel && (
+                    <Button variant="outline" size="sm" className="h-7 px-2" onClick={onCancel}>
+                      <X className="h-3.5 w-3.5 mr-1" />
+                      Annuler
+                    </Button>
+                  )}
+                </div>
               )}
             </div>
           </TooltipTrigger>
@@ -98,11 +133,65 @@ export const AudioExporter = ({
             <p>
               {!canExport
                 ? "Définissez les marqueurs de début et de fin"
-                : "Découper et exporter la section audio sélectionnée (MP3)"}
+                : `Découper et exporter la section audio sélectionnée (${describeExportOptions(exportOptions)})`}
             </p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
+
+      <Dialog open={showOptions} onOpenChange={setShowOptions}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Exporter l'audio</DialogTitle>
+            <DialogDescription>
+              Choisissez le format du fichier exporté. Vos choix sont conservés pour les prochains exports.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Préréglage</Label>
+              <Select
+                value={presetIndex >= 0 ? presetIndex.toString() : CUSTOM_PRESET}
+                onValueChange={(value) => {
+                  if (value !== CUSTOM_PRESET) setDraftOptions(withExportDefaults(presets[Number(value)].options));
+                }}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOM_PRESET}>Personnalisé</SelectItem>
+                  {presets.map((preset, index) => (
+                    <SelectItem key={`${preset.name}-${index}`} value={index.toString()}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ExportOptionsFields options={draftOptions} onChange={setDraftOptions} />
+
+            <p className="text-xs text-muted-foreground">
+              {describeExportOptions(draftOptions)}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraftOptions(DEFAULT_EXPORT_OPTIONS)}>
+              Par défaut
+            </Button>
+            <Button variant="outline" onClick={() => setShowOptions(false)}>
+              Annuler
+            </Button>
+            <Button onClick={handleConfirmExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Exporter
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
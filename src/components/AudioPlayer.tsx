@@ -3,7 +3,11 @@ import { useState, useCallback, memo, useEffect, useRef } from "react";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
 import { AudioMarker } from "@/hooks/useAudio";
+import { TimeDisplayMode } from "@/hooks/useAudioFormatting";
+import { PLAYBACK_RATES } from "@/hooks/useAudioControls";
+import { AUDITION_LABELS, AUDITION_ROLLS, AuditionMode } from "@/hooks/useAudition";
 import { parseTimeString } from "@/utils/timeParser";
+import { MarkerHandle } from "@/components/MarkerHandle";
 import { 
   Play, 
   Pause, 
@@ -14,7 +18,12 @@ import {
   ChevronsLeft,
   ChevronsRight,
   Loader2,
-  Pencil
+  Pencil,
+  Clock,
+  Timer,
+  Link2,
+  ChevronDown,
+  Repeat
 } from "lucide-react";
 import {
   Tooltip,
@@ -22,7 +31,23 @@ import {
   TooltipContent,
   TooltipProvider,
 } from "@/components/ui/tooltip";
-
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 
 interface AudioPlayerProps {
   isPlaying: boolean;
@@ -33,13 +58,32 @@ interface AudioPlayerProps {
   onVolumeChange: (value: number) => void;
   onSeek: (time: number) => void;
   formatTime: (time: number) => string;
+  parseTime?: (input: string) => number;
+  timeDisplayMode?: TimeDisplayMode;
+  onTimeDisplayModeChange?: (mode: TimeDisplayMode) => void;
+  onCopyLink?: () => void;
   audioTitle?: string;
   isLoading?: boolean;
   isBuffering?: boolean;
   markers?: AudioMarker[];
-  audioRef: React.RefObject<HTMLAudioElement>;
+  onMarkerMove?: (type: "start" | "end", position: number) => void;
+  frameDuration?: number;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  shuttleSpeed?: number; // > 0 forward, < 0 backward, 0 off
+  skipStep?: number; // seconds skipped by the skip buttons
+  onSkipStepChange?: (step: number) => void;
+  onAudition?: (mode: AuditionMode) => void;
+  auditionRoll?: number; // seconds heard before and after the markers
+  onAuditionRollChange?: (roll: number) => void;
 }
 
+// Offered skip sizes, in seconds
+const SKIP_STEPS = [1, 5, 10, 15, 30, 60, 300];
+
+const formatRate = (rate: number) => `${rate.toLocaleString("fr-FR")}×`;
+const formatStep = (step: number) => step >= 60 && step % 60 === 0 ? `${step / 60} min` : `${step.toLocaleString("fr-FR")} s`;
+
 // Use memo to prevent unnecessary re-renders
 export const AudioPlayer = memo(({
   isPlaying,
@@ -50,15 +94,29 @@ export const AudioPlayer = memo(({
   onVolumeChange,
   onSeek,
   formatTime,
+  parseTime = parseTimeString,
+  timeDisplayMode,
+  onTimeDisplayModeChange,
+  onCopyLink,
   audioTitle = "Aucun audio chargé",
   isLoading = false,
   isBuffering = false,
   markers = [],
-  audioRef,
+  onMarkerMove,
+  frameDuration = 1152 / 44100,
+  playbackRate = 1,
+  onPlaybackRateChange,
+  shuttleSpeed = 0,
+  skipStep = 10,
+  onSkipStepChange,
+  onAudition,
+  auditionRoll = 3,
+  onAuditionRollChange,
 }: AudioPlayerProps) => {
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
   const [playbackEnabled, setPlaybackEnabled] = useState(false);
   const playButtonRef = useRef<HTMLButtonElement>(null);
+  const sliderContainerRef = useRef<HTMLDivElement>(null);
   
   const playbackPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
   
@@ -70,9 +128,10 @@ export const AudioPlayer = memo(({
   const inMarker = markers.find(m => m.type === "start");
   const outMarker = markers.find(m => m.type === "end");
 
-  // Calculate percentages for IN and OUT markers
+  // Calculate percentages for IN and OUT markers, which may lie in another file
   const inPercent = inMarker ? (inMarker.position / duration) * 100 : 0;
   const outPercent = outMarker ? (outMarker.position / duration) * 100 : 0;
+  const isInFile = (marker: AudioMarker) => marker.position >= 0 && marker.position <= duration;
   
   // Enable playback controls once audio is loaded
   useEffect(() => {
@@ -84,12 +143,12 @@ export const AudioPlayer = memo(({
   }, [duration, isLoading]);
   
   const handleSkipBack = useCallback(() => {
-    onSeek(Math.max(0, currentTime - 10));
-  }, [currentTime, onSeek]);
+    onSeek(Math.max(0, currentTime - skipStep));
+  }, [currentTime, skipStep, onSeek]);
   
   const handleSkipForward = useCallback(() => {
-    onSeek(Math.min(duration, currentTime + 10));
-  }, [currentTime, duration, onSeek]);
+    onSeek(Math.min(duration, currentTime + skipStep));
+  }, [currentTime, duration, skipStep, onSeek]);
   
   const handleVolumeIconClick = useCallback(() => {
     setShowVolumeSlider(prev => !prev);
@@ -121,34 +180,12 @@ export const AudioPlayer = memo(({
     }
   }, [onPlayPause]);
 
-  // Handle playback from the IN marker and stop at OUT or end
-  const handlePlayFromSelection = useCallback(() => {
-    if (!audioRef.current) return;
-  
-    const startMarker = markers.find((m) => m.type === "start");
-    const endMarker = markers.find((m) => m.type === "end");
-  
-    if (!startMarker) return;
-  
-    const startTime = startMarker.position;
-    const stopTime = endMarker ? endMarker.position : duration;
-  
-    if (startTime >= stopTime) return;
-  
-    const audioEl = audioRef.current;
-  
-    audioEl.currentTime = startTime;
-    audioEl.play().catch(console.error);
-  
-    const stopListener = () => {
-      if (audioEl.currentTime >= stopTime) {
-        audioEl.pause();
-        audioEl.removeEventListener("timeupdate", stopListener);
-      }
-    };
-  
-    audioEl.addEventListener("timeupdate", stopListener);
-  }, [audioRef, markers, duration]);
+  // Convert a pointer position over the slider to a time in the file
+  const getTimeFromClientX = useCallback((clientX: number) => {
+    if (!sliderContainerRef.current) return 0;
+    const rect = sliderContainerRef.current.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  }, [duration]);
 
   return (
     <div className="glass-panel rounded-lg p-4 animate-fade-in">
@@ -163,11 +200,60 @@ export const AudioPlayer = memo(({
             </h3>
             <p className="text-xs text-muted-foreground">
               {formatTime(currentTime)} / {formatTime(duration)}
+              {shuttleSpeed !== 0 && (
+                <span className="ml-2 font-medium text-primary">
+                  {shuttleSpeed < 0 ? "◀◀" : "▶▶"} {formatRate(Math.abs(shuttleSpeed))}
+                </span>
+              )}
             </p>
           </div>
         </div>
         
         <div className="flex items-center space-x-3">
+          {onCopyLink && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full"
+                    onClick={onCopyLink}
+                    aria-label="Copier le lien"
+                  >
+                    <Link2 className="h-5 w-5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  Copier un lien vers ce moment et la sélection
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+
+          {timeDisplayMode && onTimeDisplayModeChange && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full"
+                    onClick={() => onTimeDisplayModeChange(timeDisplayMode === "wallclock" ? "relative" : "wallclock")}
+                    aria-label="Changer l'affichage des temps"
+                  >
+                    {timeDisplayMode === "wallclock" ? <Clock className="h-5 w-5" /> : <Timer className="h-5 w-5" />}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {timeDisplayMode === "wallclock"
+                    ? "Heure de diffusion – cliquer pour afficher la position dans le fichier"
+                    : "Position dans le fichier – cliquer pour afficher l'heure de diffusion"}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+
           <div className="relative">
             <Button 
               variant="ghost" 
@@ -196,7 +282,7 @@ export const AudioPlayer = memo(({
       
       <div className="flex flex-col space-y-4">
         <div className="space-y-1.5">
-          <div className="relative w-full">
+          <div ref={sliderContainerRef} className="relative w-full">
             {/* Slider */}
             <Slider
               value={[playbackPercentage]}
@@ -209,12 +295,12 @@ export const AudioPlayer = memo(({
             />
 
             {/* Horizontal line under the slider between IN and OUT */}
-            {inMarker && outMarker && inPercent < outPercent && (
+            {inMarker && outMarker && inPercent < outPercent && inPercent < 100 && outPercent > 0 && (
               <div
                 className="absolute h-1 bg-green-500 rounded bottom-0"
                 style={{
-                  left: `${inPercent}%`,
-                  width: `${outPercent - inPercent}%`,
+                  left: `${Math.max(0, inPercent)}%`,
+                  width: `${Math.min(100, outPercent) - Math.max(0, inPercent)}%`,
                   transform: "translateY(4px)", // push line below slider (adjust as needed)
                   pointerEvents: "none",
                   zIndex: 0,
@@ -222,33 +308,20 @@ export const AudioPlayer = memo(({
               />
             )}
 
-            {/* IN marker line */}
-            {inMarker && (
-              <div
-                className="absolute w-[2px] h-4 bg-green-700 bottom-0"
-                style={{
-                  left: `${inPercent}%`,
-                  transform: "translate(-50%, 4px)", // center horizontally, push down vertically
-                  pointerEvents: "none",
-                  zIndex: 5,
-                  borderRadius: "1px",
-                }}
+            {/* Draggable IN/OUT markers */}
+            {onMarkerMove && duration > 0 && [inMarker, outMarker].map((marker) => marker && isInFile(marker) && (
+              <MarkerHandle
+                key={marker.type}
+                marker={marker}
+                left={marker.type === "start" ? inPercent : outPercent}
+                getTimeFromClientX={getTimeFromClientX}
+                pixelsPerSecond={(sliderContainerRef.current?.clientWidth ?? 0) / duration}
+                currentTime={currentTime}
+                frameDuration={frameDuration}
+                onMove={onMarkerMove}
+                variant="slider"
               />
-            )}
-
-            {/* OUT marker line */}
-            {outMarker && (
-              <div
-                className="absolute w-[2px] h-4 bg-red-700 bottom-0"
-                style={{
-                  left: `${outPercent}%`,
-                  transform: "translate(-50%, 4px)",
-                  pointerEvents: "none",
-                  zIndex: 5,
-                  borderRadius: "1px",
-                }}
-              />
-            )}
+            ))}
           </div>
           <div className="flex justify-between text-xs text-muted-foreground">
             {isEditingTime ? (
@@ -257,7 +330,7 @@ export const AudioPlayer = memo(({
                 value={editableTime}
                 onChange={(e) => setEditableTime(e.target.value)}
                 onBlur={() => {
-                  const time = parseTimeString(editableTime);
+                  const time = parseTime(editableTime);
                   if (!isNaN(time)) {
                     onSeek(Math.min(Math.max(0, time), duration));
                   }
@@ -294,6 +367,8 @@ export const AudioPlayer = memo(({
             className="rounded-full h-10 w-10"
             onClick={handleSkipBack}
             disabled={!playbackEnabled || isLoading || isBuffering}
+            aria-label={`Reculer de ${formatStep(skipStep)}`}
+            title={`Reculer de ${formatStep(skipStep)}`}
           >
             <ChevronsLeft className="h-5 w-5" />
           </Button>
@@ -331,33 +406,99 @@ export const AudioPlayer = memo(({
             className="rounded-full h-10 w-10"
             onClick={handleSkipForward}
             disabled={!playbackEnabled || isLoading || isBuffering}
+            aria-label={`Avancer de ${formatStep(skipStep)}`}
+            title={`Avancer de ${formatStep(skipStep)}`}
           >
             <ChevronsRight className="h-5 w-5" />
           </Button>
 
-          {markers.some((m) => m.type === "start") && (
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
+          {onSkipStepChange && (
+            <Select value={String(skipStep)} onValueChange={(value) => onSkipStepChange(Number(value))}>
+              <SelectTrigger className="h-8 w-20 text-xs" aria-label="Pas de saut">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([...SKIP_STEPS, skipStep])].sort((a, b) => a - b).map((step) => (
+                  <SelectItem key={step} value={String(step)}>{formatStep(step)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {onPlaybackRateChange && (
+            <Select value={String(playbackRate)} onValueChange={(value) => onPlaybackRateChange(Number(value))}>
+              <SelectTrigger className="h-8 w-20 text-xs" aria-label="Vitesse de lecture">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([...PLAYBACK_RATES, playbackRate])].sort((a, b) => a - b).map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>{formatRate(rate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {onAudition && markers.some((m) => m.type === "start") && (
+            <div className="w-full sm:w-auto flex items-center animate-fade-in">
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="flex-1 sm:flex-none inline-flex items-center space-x-2 px-5 py-2 bg-green-50 border-green-200 hover:bg-green-100 transition-all hover:scale-105 active:scale-95 rounded-l-full rounded-r-none"
+                      onClick={() => onAudition("selection")}
+                      disabled={!playbackEnabled || isLoading}
+                      aria-label="Lecture depuis le marqueur"
+                    >
+                      <Play className="text-green-500 h-6 w-6 ml-1" />
+                      <span>{AUDITION_LABELS.selection}</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>
+                      Lire depuis la sélection
+                      {markers.some((m) => m.type === "end") && " jusqu’au marqueur OUT"}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
                   <Button
                     variant="outline"
-                    className="w-full sm:w-auto inline-flex items-center space-x-2 px-5 py-2 bg-green-50 border-green-200 hover:bg-green-100 transition-all hover:scale-105 active:scale-95 rounded-full animate-fade-in"
-                    onClick={handlePlayFromSelection}
+                    className="px-2 bg-green-50 border-green-200 border-l-0 hover:bg-green-100 rounded-r-full rounded-l-none"
                     disabled={!playbackEnabled || isLoading}
-                    aria-label="Lecture depuis le marqueur"
+                    aria-label="Modes d'écoute"
                   >
-                    <Play className="text-green-500 h-6 w-6 ml-1" />
-                    <span>Jouer la sélection</span>
+                    <ChevronDown className="h-4 w-4" />
                   </Button>
-                </TooltipTrigger>
-                <TooltipContent side="top">
-                  <p>
-                    Lire depuis la sélection
-                    {markers.some((m) => m.type === "end") && " jusqu’au marqueur OUT"}
-                  </p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(["loop", "aroundIn", "toOut", "acrossEdit"] as AuditionMode[]).map((mode) => (
+                    <DropdownMenuItem
+                      key={mode}
+                      onSelect={() => onAudition(mode)}
+                      disabled={(mode === "toOut" || mode === "acrossEdit") && !markers.some((m) => m.type === "end")}
+                    >
+                      {mode === "loop" ? <Repeat className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                      {AUDITION_LABELS[mode]}
+                    </DropdownMenuItem>
+                  ))}
+                  {onAuditionRollChange && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Durée avant / après</DropdownMenuLabel>
+                      <DropdownMenuRadioGroup value={String(auditionRoll)} onValueChange={(value) => onAuditionRollChange(Number(value))}>
+                        {[...new Set([...AUDITION_ROLLS, auditionRoll])].sort((a, b) => a - b).map((roll) => (
+                          <DropdownMenuRadioItem key={roll} value={String(roll)}>{roll} s</DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           )}
 
           
@@ -6,6 +6,7 @@ import { Calendar as CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
+import { DayStatus } from "@/utils/recordingService";
 import {
   Popover,
   PopoverContent,
@@ -15,9 +16,19 @@ import {
 interface DatePickerProps {
   date?: Date;
   onSelect: (date: Date | undefined) => void;
+  getDayStatus?: (date: Date) => DayStatus | null; // null while unknown
+  onMonthChange?: (month: Date) => void;
 }
 
-export function DatePicker({ date, onSelect }: DatePickerProps) {
+const DAY_STATUSES: DayStatus[] = ["complete", "partial", "missing"];
+
+const DAY_STATUS_CLASSES: Record<DayStatus, string> = {
+  complete: "bg-green-100 text-green-900",
+  partial: "bg-amber-100 text-amber-900",
+  missing: "bg-red-100 text-red-900 line-through",
+};
+
+export function DatePicker({ date, onSelect, getDayStatus, onMonthChange }: DatePickerProps) {
   const [open, setOpen] = React.useState(false);
 
   // Handler that will both update the date and close the popover
@@ -49,9 +60,22 @@ export function DatePicker({ date, onSelect }: DatePickerProps) {
             const today = new Date();
             return date > today || date < subMonths(today, 4); // Disable future dates and dates older than 4 months
           }}
+          defaultMonth={date}
+          onMonthChange={onMonthChange}
+          modifiers={getDayStatus
+            ? Object.fromEntries(DAY_STATUSES.map((status) => [status, (day: Date) => getDayStatus(day) === status]))
+            : undefined}
+          modifiersClassNames={DAY_STATUS_CLASSES}
           initialFocus
           locale={fr}
         />
+        {getDayStatus && (
+          <div className="flex justify-center gap-3 px-3 pb-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><span className={cn("h-3 w-3 rounded-sm", DAY_STATUS_CLASSES.complete)} />Complet</span>
+            <span className="flex items-center gap-1"><span className={cn("h-3 w-3 rounded-sm", DAY_STATUS_CLASSES.partial)} />Partiel</span>
+            <span className="flex items-center gap-1"><span className={cn("h-3 w-3 rounded-sm", DAY_STATUS_CLASSES.missing)} />Absent</span>
+          </div>
+        )}
       </PopoverContent>
     </Popover>
   );
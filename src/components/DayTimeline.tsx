@@ -0,0 +1,139 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { AudioSegment } from "@/hooks/useAudio";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { formatWallClock } from "@/utils/timeFormat";
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR, getRecordingOffset } from "@/utils/recordingTime";
+
+interface DayTimelineProps {
+  date: string; // yyyy-MM-dd
+  dayPosition: number; // seconds from midnight
+  currentHour: string;
+  availableHours: string[];
+  segments: AudioSegment[];
+  continuousPlayback: boolean;
+  onContinuousPlaybackChange: (value: boolean) => void;
+  onSeek: (seconds: number) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour.toString().padStart(2, "0"));
+const LABEL_HOURS = [0, 3, 6, 9, 12, 15, 18, 21];
+
+/**
+ * The 24 hours of a channel's day. Hours without a recording are greyed out,
+ * clicking anywhere loads the matching hour and seeks to that time.
+ */
+export const DayTimeline = ({
+  date,
+  dayPosition,
+  currentHour,
+  availableHours,
+  segments,
+  continuousPlayback,
+  onContinuousPlaybackChange,
+  onSeek,
+}: DayTimelineProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  const toPercent = (seconds: number) => (seconds / SECONDS_PER_DAY) * 100;
+
+  // Segments of this day, in seconds from its midnight
+  const daySegments = useMemo(() =>
+    segments
+      .filter((segment) => segment.origin)
+      .map((segment) => {
+        const shift = segment.origin ? getRecordingOffset({ date, hour: "00" }, segment.origin.date) : 0;
+        return { ...segment, in: segment.in - shift, out: segment.out - shift };
+      })
+      .filter((segment) => segment.out > 0 && segment.in < SECONDS_PER_DAY),
+  [segments, date]);
+
+  const getTimeFromClientX = useCallback((clientX: number) => {
+    if (!containerRef.current) return 0;
+    const rect = containerRef.current.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * (SECONDS_PER_DAY - 1);
+  }, []);
+
+  return (
+    <div className="glass-panel rounded-lg p-4 space-y-2 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          Journée du {date}
+          <span className="ml-2 font-mono text-xs text-muted-foreground">{formatWallClock(dayPosition)}</span>
+        </span>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="continuous-playback"
+            checked={continuousPlayback}
+            onCheckedChange={onContinuousPlaybackChange}
+          />
+          <Label htmlFor="continuous-playback" className="text-xs">Lecture continue</Label>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative h-8 w-full rounded overflow-hidden cursor-pointer select-none"
+        onPointerMove={(e) => setHoverTime(getTimeFromClientX(e.clientX))}
+        onPointerLeave={() => setHoverTime(null)}
+        onClick={(e) => onSeek(getTimeFromClientX(e.clientX))}
+      >
+        {HOURS.map((hour, index) => (
+          <div
+            key={hour}
+            className={cn(
+              "absolute inset-y-0 border-r border-background",
+              hour === currentHour
+                ? "bg-primary/30"
+                : availableHours.includes(hour)
+                  ? "bg-secondary/60 hover:bg-secondary"
+                  : "bg-muted/40 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,hsl(var(--muted))_4px,hsl(var(--muted))_8px)]"
+            )}
+            style={{ left: `${(index / 24) * 100}%`, width: `${100 / 24}%` }}
+            title={availableHours.includes(hour) ? `${hour}h` : `${hour}h – pas d'enregistrement`}
+          />
+        ))}
+
+        {daySegments.map((segment) => (
+          <div
+            key={segment.id}
+            className="absolute bottom-0 h-1.5 pointer-events-none"
+            style={{
+              left: `${toPercent(Math.max(0, segment.in))}%`,
+              width: `${toPercent(Math.min(SECONDS_PER_DAY, segment.out) - Math.max(0, segment.in))}%`,
+              backgroundColor: segment.color
+            }}
+          />
+        ))}
+
+        <div
+          className="absolute inset-y-0 w-0.5 bg-foreground/80 pointer-events-none"
+          style={{ left: `${toPercent(dayPosition)}%` }}
+        />
+
+        {hoverTime !== null && (
+          <div
+            className="absolute top-0 z-10 bg-black/80 text-white px-1.5 rounded text-[10px] -translate-x-1/2 pointer-events-none"
+            style={{ left: `${toPercent(hoverTime)}%` }}
+          >
+            {formatWallClock(hoverTime)}
+          </div>
+        )}
+      </div>
+
+      <div className="relative h-3 text-[10px] text-muted-foreground font-mono select-none">
+        {LABEL_HOURS.map((hour) => (
+          <span
+            key={hour}
+            className="absolute"
+            style={{ left: `${toPercent(hour * SECONDS_PER_HOUR)}%` }}
+          >
+            {hour.toString().padStart(2, "0")}h
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
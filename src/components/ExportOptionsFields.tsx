@@ -0,0 +1,234 @@
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  EXPORT_BITRATES,
+  EXPORT_FORMATS,
+  getExportSampleRates,
+  ExportChannels,
+  ExportFormat,
+  ExportOptions
+} from "@/utils/exportOptions";
+
+interface ExportOptionsFieldsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  disabled?: boolean;
+}
+
+// Select values cannot be empty: "source" stands for keeping the recording's value
+const SOURCE = "source";
+
+export const ExportOptionsFields = ({ options, onChange, disabled = false }: ExportOptionsFieldsProps) => {
+  const format = EXPORT_FORMATS[options.format];
+  const preciseId = useId();
+  const normalizeId = useId();
+  const sidecarId = useId();
+  const updateOptions = (changes: Partial<ExportOptions>) => onChange({ ...options, ...changes });
+
+  // Empty or invalid numbers leave the option unchanged
+  const updateNumber = (key: "fadeIn" | "fadeOut" | "targetLoudness" | "truePeak", value: string, min: number, max: number) => {
+    const number = parseFloat(value.replace(",", "."));
+    if (!isNaN(number)) updateOptions({ [key]: Math.min(max, Math.max(min, number)) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Format</Label>
+        <Select
+          value={options.format}
+          onValueChange={(value) => {
+            const nextFormat = value as ExportFormat;
+            // A rate the new format cannot encode falls back to the source's
+            const sampleRate = options.sampleRate !== null && getExportSampleRates(nextFormat).includes(options.sampleRate)
+              ? options.sampleRate
+              : null;
+            updateOptions({ format: nextFormat, sampleRate });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {EXPORT_FORMATS[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {format.hasBitrate && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Bitrate</Label>
+          <Select
+            value={options.bitrate?.toString() ?? SOURCE}
+            onValueChange={(value) => updateOptions({ bitrate: value === SOURCE ? null : Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SOURCE}>
+                {options.format === "mp3" ? "D'origine" : `Par défaut (${format.defaultBitrate} kbps)`}
+              </SelectItem>
+              {EXPORT_BITRATES.map((bitrate) => (
+                <SelectItem key={bitrate} value={bitrate.toString()}>
+                  {bitrate} kbps
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Fréquence</Label>
+        <Select
+          value={options.sampleRate?.toString() ?? SOURCE}
+          onValueChange={(value) => updateOptions({ sampleRate: value === SOURCE ? null : Number(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SOURCE}>D'origine</SelectItem>
+            {getExportSampleRates(options.format).map((sampleRate) => (
+              <SelectItem key={sampleRate} value={sampleRate.toString()}>
+                {(sampleRate / 1000).toLocaleString("fr-FR")} kHz
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Canaux</Label>
+        <Select
+          value={options.channels}
+          onValueChange={(value) => updateOptions({ channels: value as ExportChannels })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="source">D'origine</SelectItem>
+            <SelectItem value="mono">Mono</SelectItem>
+            <SelectItem value="stereo">Stéréo</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {options.format === "mp3" && (
+        <div className="col-span-2 space-y-1">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={preciseId}
+              checked={!!options.precise}
+              onCheckedChange={(precise) => updateOptions({ precise })}
+              disabled={disabled}
+            />
+            <Label htmlFor={preciseId} className="text-xs">Coupe précise</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Réencode l'extrait pour couper à l'échantillon près. Sans réencodage, la coupe se cale sur les trames MP3 (environ 26 ms).
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Fondu d'entrée (s)</Label>
+        <Input
+          type="number"
+          min={0}
+          max={10}
+          step={0.1}
+          value={options.fadeIn}
+          onChange={(e) => updateNumber("fadeIn", e.target.value, 0, 10)}
+          disabled={disabled}
+          className="h-9"
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Fondu de sortie (s)</Label>
+        <Input
+          type="number"
+          min={0}
+          max={10}
+          step={0.1}
+          value={options.fadeOut}
+          onChange={(e) => updateNumber("fadeOut", e.target.value, 0, 10)}
+          disabled={disabled}
+          className="h-9"
+        />
+      </div>
+
+      <div className="col-span-2 flex items-center space-x-2">
+        <Switch
+          id={normalizeId}
+          checked={options.normalize}
+          onCheckedChange={(normalize) => updateOptions({ normalize })}
+          disabled={disabled}
+        />
+        <Label htmlFor={normalizeId} className="text-xs">Normaliser le volume (EBU R128)</Label>
+      </div>
+
+      {options.normalize && (
+        <>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Sonie cible (LUFS)</Label>
+            <Input
+              type="number"
+              min={-70}
+              max={-5}
+              step={0.5}
+              value={options.targetLoudness}
+              onChange={(e) => updateNumber("targetLoudness", e.target.value, -70, -5)}
+              disabled={disabled}
+              className="h-9"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Crête vraie max. (dBTP)</Label>
+            <Input
+              type="number"
+              min={-9}
+              max={0}
+              step={0.5}
+              value={options.truePeak}
+              onChange={(e) => updateNumber("truePeak", e.target.value, -9, 0)}
+              disabled={disabled}
+              className="h-9"
+            />
+          </div>
+        </>
+      )}
+
+      <div className="col-span-2 flex items-center space-x-2">
+        <Switch
+          id={sidecarId}
+          checked={options.sidecar}
+          onCheckedChange={(sidecar) => updateOptions({ sidecar })}
+          disabled={disabled}
+        />
+        <Label htmlFor={sidecarId} className="text-xs">Joindre une fiche JSON (canal, horaires, notes...)</Label>
+      </div>
+    </div>
+  );
+};
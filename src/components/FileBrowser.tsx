@@ -1,11 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { AudioFile } from "@/hooks/useAudio";
 import { cn } from "@/lib/utils";
 import { Calendar, Search, Clock, FileAudio, MapPin, GitFork } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { format, isToday } from "date-fns";
+import { format, isToday, parseISO } from "date-fns";
+import { toast } from "sonner";
 import { DatePicker } from "@/components/DatePicker";
 import { 
   Select,
@@ -18,17 +19,48 @@ import typesConfig from "@/config/types.json";
 import citiesConfig from "@/config/cities.json";
 import { useSettings } from "@/contexts/SettingsContext";
 import { getTypeInitial } from "@/utils/getTypeInitial";
+import { RecordingCodecInfo, RecordingStatus } from "@/utils/recordingService";
+import { getDayStatus } from "@/utils/recordingStatus";
+import { useRecordingAvailability } from "@/hooks/useRecordingAvailability";
+import { MomentChannel, MomentSearchError, getMomentRecording, parseMoment } from "@/utils/momentSearch";
 
 interface CityFolder {
   displayName: string;
   folderName: string;
 }
 
+// Duration of a recording as h:mm:ss or mm:ss
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+const formatCodec = (codec: RecordingCodecInfo) =>
+  `${codec.bitrate} kbps${codec.vbr ? " VBR" : ""} • ${(codec.sampleRate / 1000).toFixed(1)} kHz • ${codec.channels === 1 ? "mono" : "stéréo"}`;
+
+const HOUR_STATUS_CLASSES: Record<RecordingStatus, string> = {
+  present: "border-green-300",
+  missing: "border-dashed bg-muted/40 text-muted-foreground",
+  truncated: "border-amber-400 bg-amber-50 text-amber-900",
+  silent: "border-slate-400 bg-slate-100 text-slate-500",
+};
+
+const HOUR_STATUS_LABELS: Record<RecordingStatus, string> = {
+  present: "Enregistrement complet",
+  missing: "Pas d'enregistrement",
+  truncated: "Enregistrement incomplet",
+  silent: "Enregistrement silencieux",
+};
+
 interface FileBrowserProps {
   files: AudioFile[];
   onFileSelect: (file: AudioFile) => void;
   isLoading: boolean;
-  onPathChange: (path: string, city: string, date: Date, hour: string | null, typeInitial: string) => void;
+  onPathChange: (path: string, city: string, date: Date, hour: string | null, typeInitial: string, position?: number) => void;
 }
 
 export const FileBrowser = ({
@@ -46,8 +78,19 @@ export const FileBrowser = ({
   const [types, setTypes] = useState(typesConfig);
   const [isLocalPath, setIsLocalPath] = useState(false);
   const [currentHour, setCurrentHour] = useState<number>(new Date().getHours());
+  const [momentQuery, setMomentQuery] = useState("");
   const { settings } = useSettings();
 
+  // Recorded hours of the selected canal, to show gaps before loading anything
+  const { availability, loadMonth } = useRecordingAvailability(selectedCityFolder || null);
+
+  useEffect(() => {
+    if (selectedDate) loadMonth(selectedDate);
+  }, [selectedDate, loadMonth]);
+
+  // City to select once the cities of a newly selected type are known
+  const pendingCityRef = useRef<string | null>(null);
+
   // Update current hour every minute
   useEffect(() => {
     const interval = setInterval(() => {
@@ -80,29 +123,72 @@ export const FileBrowser = ({
         : settings?.cities?.retours ?? citiesConfig.retours;
 
 
+    const pendingCity = pendingCityRef.current;
+    pendingCityRef.current = null;
+
     setCities(selectedCities);
-    setSelectedCityFolder(selectedCities[0]?.folderName || "");
+    setSelectedCityFolder(
+      pendingCity && selectedCities.some((city) => city.folderName === pendingCity)
+        ? pendingCity
+        : selectedCities[0]?.folderName || ""
+    );
   }, [selectedType, settings]);
 
+  // Every channel of every type, for the moment search
+  const channels: MomentChannel[] = useMemo(() =>
+    types.flatMap((type) => {
+      const typeCities = type.initial === "D"
+        ? settings?.cities?.departs ?? citiesConfig.departs
+        : settings?.cities?.retours ?? citiesConfig.retours;
+      return typeCities.map((city) => ({ ...city, type: type.folderName, typeInitial: type.initial }));
+    }),
+  [types, settings]);
+
+  const buildPath = (city: string, dateFolder: string, hour: string | null) => {
+    if (isLocalPath) {
+      // For local paths, construct the path without doubling the backslashes
+      return `${audioFolderPath}/${city}/${dateFolder}${hour ? `/${hour}.mp3` : ''}`;
+    }
+    // For network paths (UNC), ensure the format starts with double backslashes
+    return `${audioFolderPath}\\${city}\\${dateFolder}${hour ? `\\${hour}.mp3` : ''}`;
+  };
+
   const handleSearch = () => {
     if (!selectedCityFolder || !selectedDate) return;
     
     // Format date as YYYY-MM-DD for folder structure
     const dateFolder = format(selectedDate, "yyyy-MM-dd");
     const typeInitial = getTypeInitial(selectedType);
-    
-    // Generate path based on the type and other parameters
-    let fullPath;
-    
-    if (isLocalPath) {
-      // For local paths, construct the path without doubling the backslashes
-      fullPath = `${audioFolderPath}/${selectedCityFolder}/${dateFolder}${selectedHour ? `/${selectedHour}.mp3` : ''}`;
-    } else {
-      // For network paths (UNC), ensure the format starts with double backslashes
-      fullPath = `${audioFolderPath}\\${selectedCityFolder}\\${dateFolder}${selectedHour ? `\\${selectedHour}.mp3` : ''}`;
+
+    onPathChange(buildPath(selectedCityFolder, dateFolder, selectedHour), selectedCityFolder, selectedDate, selectedHour, typeInitial);
+  };
+
+  // Load the hour holding a typed moment and seek to it, keeping the selectors in sync
+  const handleMomentSearch = () => {
+    if (!momentQuery.trim()) return;
+
+    const current = channels.find((channel) => channel.type === selectedType && channel.folderName === selectedCityFolder) ?? null;
+    let moment;
+    try {
+      moment = parseMoment(momentQuery, channels, current);
+    } catch (error) {
+      if (!(error instanceof MomentSearchError)) throw error;
+      toast.error(error.message);
+      return;
     }
 
-    onPathChange(fullPath, selectedCityFolder, selectedDate, selectedHour, typeInitial);
+    const { channel, date } = moment;
+    const { hour, offset } = getMomentRecording(moment);
+
+    if (channel.type !== selectedType) {
+      pendingCityRef.current = channel.folderName;
+      setSelectedType(channel.type);
+    }
+    setSelectedCityFolder(channel.folderName);
+    setSelectedDate(parseISO(date));
+    setSelectedHour(hour);
+
+    onPathChange(buildPath(channel.folderName, date, hour), channel.folderName, parseISO(date), hour, channel.typeInitial, offset);
   };
 
   const isHourDisabled = (hour: number): boolean => {
@@ -117,10 +203,44 @@ export const FileBrowser = ({
     i.toString().padStart(2, '0')
   );
 
+  // The hour being recorded today is not counted
+  const getCalendarDayStatus = (day: Date) => {
+    const dayHours = availability[format(day, "yyyy-MM-dd")];
+    if (!dayHours || day > new Date()) return null;
+    return getDayStatus(dayHours, isToday(day) ? currentHour : 24);
+  };
+
+  const selectedDayHours = selectedDate ? availability[format(selectedDate, "yyyy-MM-dd")] : undefined;
+  const getHourStatus = (hour: string): RecordingStatus | null =>
+    selectedDayHours ? selectedDayHours[hour] ?? "missing" : null;
+
   return (
     <div className="w-full flex flex-col h-full glass-panel rounded-lg overflow-hidden animate-fade-in">
       <div className="p-4 bg-secondary/50 backdrop-blur-md border-b">
         <div className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="moment-search" className="text-sm font-medium flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              <span>Aller à un moment</span>
+            </label>
+            <div className="flex gap-2">
+              <Input
+                id="moment-search"
+                value={momentQuery}
+                onChange={(e) => setMomentQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleMomentSearch();
+                }}
+                placeholder="Redon 2025-03-10 14:32:10, hier 8h15..."
+              />
+              <Button variant="outline" onClick={handleMomentSearch} disabled={!momentQuery.trim()}>
+                Aller
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
           <div className="space-y-2">
             <label className="text-sm font-medium flex items-center gap-2">
               <GitFork className="h-4 w-4" />
@@ -173,6 +293,8 @@ export const FileBrowser = ({
             <DatePicker
               date={selectedDate}
               onSelect={setSelectedDate}
+              getDayStatus={getCalendarDayStatus}
+              onMonthChange={loadMonth}
             />
           </div>
           
@@ -185,6 +307,7 @@ export const FileBrowser = ({
               {hours.map((hour) => {
                 const hourNumber = parseInt(hour, 10);
                 const disabled = isHourDisabled(hourNumber);
+                const status = disabled ? null : getHourStatus(hour);
                 
                 return (
                   <Button
@@ -194,9 +317,10 @@ export const FileBrowser = ({
                       "h-9 px-2 text-xs",
                       selectedHour === hour 
                         ? "bg-primary text-primary-foreground" 
-                        : "hover:bg-secondary/80",
+                        : cn("hover:bg-secondary/80", status && HOUR_STATUS_CLASSES[status]),
                       disabled && "opacity-50 cursor-not-allowed"
                     )}
+                    title={status ? HOUR_STATUS_LABELS[status] : undefined}
                     onClick={() => !disabled && setSelectedHour(selectedHour === hour ? null : hour)}
                     disabled={disabled}
                   >
@@ -205,6 +329,16 @@ export const FileBrowser = ({
                 );
               })}
             </div>
+            {selectedDayHours && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                {(["missing", "truncated", "silent"] as RecordingStatus[]).map((status) => (
+                  <span key={status} className="flex items-center gap-1">
+                    <span className={cn("h-3 w-3 rounded-sm border", HOUR_STATUS_CLASSES[status])} />
+                    {HOUR_STATUS_LABELS[status]}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           
           <Button 
@@ -259,7 +393,18 @@ export const FileBrowser = ({
                     <span>{file.size}</span>
                     <span>•</span>
                     <span>{file.type.split("/")[1]}</span>
+                    {file.duration !== undefined && (
+                      <>
+                        <span>•</span>
+                        <span>{formatDuration(file.duration)}</span>
+                      </>
+                    )}
                   </div>
+                  {file.recording?.codec && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatCodec(file.recording.codec)}
+                    </div>
+                  )}
                   <div className="flex items-center space-y-1 space-x-1 text-xs text-muted-foreground">
                     <Clock className="h-3 w-3" />
                     <span>{file.lastModified}</span>
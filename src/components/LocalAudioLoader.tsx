@@ -5,6 +5,7 @@ import { Upload, File } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { AudioFile } from "@/hooks/useAudio";
+import { hashLocalFile } from "@/utils/editingSessions";
 
 interface LocalAudioLoaderProps {
   onFileLoad: (file: AudioFile) => void;
@@ -54,11 +55,17 @@ export const LocalAudioLoader = ({ onFileLoad }: LocalAudioLoaderProps) => {
     testAudio.preload = "metadata";
     
     // Set up event listeners before setting src
-    const onMetadataLoaded = () => {
+    const onMetadataLoaded = async () => {
       console.log(`Successfully verified blob URL for ${file.name}, duration: ${testAudio.duration}s`);
+      cleanup();
+      // Identifies the file to restore the work saved on it
+      try {
+        audioFile.contentHash = await hashLocalFile(file);
+      } catch (error) {
+        console.error(`Could not hash ${file.name}:`, error);
+      }
       toast.success(`Loaded: ${file.name} (${size} MB)`);
       onFileLoad(audioFile);
-      cleanup();
     };
     
     const onError = (e: Event) => {
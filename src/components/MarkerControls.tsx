@@ -18,28 +18,54 @@ import {
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { AudioMarker } from "@/hooks/useAudio";
-import { ArrowLeftToLine, ArrowRightToLine, Delete, DeleteIcon, EraserIcon, Scissors, Trash2Icon, Pencil } from "lucide-react";
+import { ArrowLeftToLine, ArrowRightToLine, Delete, DeleteIcon, EraserIcon, Scissors, Trash2Icon, Pencil, Play, Repeat, Undo2, Redo2 } from "lucide-react";
 import { AudioExporter } from "./AudioExporter";
 import { parseTimeString } from "@/utils/timeParser";
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from "@/utils/exportOptions";
+import { AUDITION_LABELS, AuditionMode } from "@/hooks/useAudition";
 
 interface MarkerControlsProps {
   markers: AudioMarker[];
+  segmentLabel?: string;
   onAddMarker: (type: "start" | "end") => void;
-  onExport: () => void;
+  onMarkerChange: (type: "start" | "end", position: number) => void;
+  exportOptions?: ExportOptions;
+  onExport: (options: ExportOptions) => void;
+  onCancelExport?: () => void;
+  exportProgress?: number | null;
   onResetMarkers: () => void;
   currentTime: number;
   formatTimeDetailed: (time: number) => string;
+  parseTime?: (input: string) => number;
   isExporting?: boolean;
+  onAudition?: (mode: AuditionMode) => void;
+  auditionRoll?: number;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 }
 
 export const MarkerControls = ({
   markers,
+  segmentLabel,
   onAddMarker,
+  onMarkerChange,
+  exportOptions = DEFAULT_EXPORT_OPTIONS,
   onExport,
+  onCancelExport,
+  exportProgress = null,
   onResetMarkers,
   currentTime,
   formatTimeDetailed,
+  parseTime = parseTimeString,
   isExporting = false,
+  onAudition,
+  auditionRoll = 3,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
 }: MarkerControlsProps) => {
   const startMarker = markers.find((marker) => marker.type === "start");
   const endMarker = markers.find((marker) => marker.type === "end");
@@ -61,10 +87,25 @@ export const MarkerControls = ({
   return (
     <div className="flex flex-col glass-panel rounded-lg p-4 space-y-4 animate-fade-in">
       <div className="flex justify-between items-center">
-        <h3 className="text-lg font-medium">Marqueurs</h3>
-        <Badge variant="secondary" className="font-mono text-xs">
-          {formatTimeDetailed(currentTime)}
-        </Badge>
+        <h3 className="text-lg font-medium">
+          Marqueurs
+          {segmentLabel && <span className="text-muted-foreground font-normal"> · {segmentLabel}</span>}
+        </h3>
+        <div className="flex items-center gap-1">
+          {onUndo && (
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onUndo} disabled={!canUndo} title="Annuler" aria-label="Annuler">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          )}
+          {onRedo && (
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onRedo} disabled={!canRedo} title="Rétablir" aria-label="Rétablir">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Badge variant="secondary" className="font-mono text-xs">
+            {formatTimeDetailed(currentTime)}
+          </Badge>
+        </div>
       </div>
 
       <div className="flex flex-wrap gap-3">
@@ -159,9 +200,9 @@ export const MarkerControls = ({
                     value={editableMarkerTime}
                     onChange={(e) => setEditableMarkerTime(e.target.value)}
                     onBlur={() => {
-                      const newTime = parseTimeString(editableMarkerTime);
+                      const newTime = parseTime(editableMarkerTime);
                       if (!isNaN(newTime)) {
-                        startMarker.position = newTime; // Or call a setter
+                        onMarkerChange("start", newTime);
                       }
                       setEditingMarker(null);
                     }}
@@ -170,7 +211,7 @@ export const MarkerControls = ({
                       if (e.key === "Escape") setEditingMarker(null);
                     }}
                     autoFocus
-                    className="bg-transparent border-b border-muted outline-none w-20"
+                    className="bg-transparent border-b border-muted outline-none w-24"
                   />
                 ) : (
                   <span 
@@ -186,6 +227,18 @@ export const MarkerControls = ({
                 )}
               </div>
             </div>
+            {onAudition && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-green-600 hover:bg-green-100"
+                onClick={() => onAudition("aroundIn")}
+                title={`${AUDITION_LABELS.aroundIn} : ${auditionRoll} s avant et après`}
+                aria-label={AUDITION_LABELS.aroundIn}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         )}
 
@@ -203,9 +256,9 @@ export const MarkerControls = ({
                     value={editableMarkerTime}
                     onChange={(e) => setEditableMarkerTime(e.target.value)}
                     onBlur={() => {
-                      const newTime = parseTimeString(editableMarkerTime);
+                      const newTime = parseTime(editableMarkerTime);
                       if (!isNaN(newTime)) {
-                        endMarker.position = newTime; // Or call a setter
+                        onMarkerChange("end", newTime);
                       }
                       setEditingMarker(null);
                     }}
@@ -214,7 +267,7 @@ export const MarkerControls = ({
                       if (e.key === "Escape") setEditingMarker(null);
                     }}
                     autoFocus
-                    className="bg-transparent border-b border-muted outline-none w-20"
+                    className="bg-transparent border-b border-muted outline-none w-24"
                   />
                 ) : (
                   <span
@@ -230,6 +283,37 @@ export const MarkerControls = ({
                 )}
               </div>
             </div>
+            {onAudition && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-red-600 hover:bg-red-100"
+                onClick={() => onAudition("toOut")}
+                title={`${AUDITION_LABELS.toOut} : les ${auditionRoll} dernières secondes`}
+                aria-label={AUDITION_LABELS.toOut}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        {onAudition && startMarker && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => onAudition("loop")}>
+              <Repeat className="h-4 w-4 mr-2" />
+              {AUDITION_LABELS.loop}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAudition("acrossEdit")}
+              disabled={!endMarker}
+              title={`${auditionRoll} s avant le début puis ${auditionRoll} s après la fin, comme si la sélection était coupée`}
+            >
+              <Scissors className="h-4 w-4 mr-2" />
+              {AUDITION_LABELS.acrossEdit}
+            </Button>
           </div>
         )}
 
@@ -238,7 +322,7 @@ export const MarkerControls = ({
             <DialogHeader>
               <DialogTitle>Confirmer l'effacement des marqueurs</DialogTitle>
               <DialogDescription>
-                Êtes-vous sûr de vouloir effacer tous les marqueurs ?
+                Êtes-vous sûr de vouloir effacer tous les marqueurs ? Tous les segments seront supprimés.
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -254,7 +338,10 @@ export const MarkerControls = ({
 
         <AudioExporter 
           markers={markers}
+          exportOptions={exportOptions}
           onExport={onExport}
+          onCancel={onCancelExport}
+          progress={exportProgress}
           isExporting={isExporting}
           formatTimeDetailed={formatTimeDetailed}
           canExport={canExport}
@@ -0,0 +1,105 @@
+import { useCallback, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { AudioMarker } from "@/hooks/useAudio";
+
+interface MarkerHandleProps {
+  marker: AudioMarker;
+  left: number; // position in % of the container
+  getTimeFromClientX: (clientX: number) => number;
+  pixelsPerSecond: number;
+  currentTime: number;
+  frameDuration: number;
+  onMove: (type: "start" | "end", position: number) => void;
+  variant?: "waveform" | "slider";
+}
+
+// Distance under which a dragged marker sticks to the playhead
+const SNAP_DISTANCE_PX = 8;
+
+/**
+ * IN/OUT marker that can be dragged, or focused and nudged with the keyboard:
+ * arrows move by 100 ms, Shift+arrows by 1 s, Alt+arrows by one frame, P snaps to the playhead.
+ */
+export const MarkerHandle = ({
+  marker,
+  left,
+  getTimeFromClientX,
+  pixelsPerSecond,
+  currentTime,
+  frameDuration,
+  onMove,
+  variant = "waveform",
+}: MarkerHandleProps) => {
+  const isDraggingRef = useRef(false);
+  const isStart = marker.type === "start";
+  const label = isStart ? "Marqueur début" : "Marqueur fin";
+
+  const snap = useCallback((time: number) =>
+    Math.abs(time - currentTime) * pixelsPerSecond <= SNAP_DISTANCE_PX ? currentTime : time,
+  [currentTime, pixelsPerSecond]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    // Do not let the timeline underneath seek
+    e.stopPropagation();
+    e.preventDefault();
+    e.currentTarget.focus();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDraggingRef.current = true;
+  }, []);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current) return;
+    e.stopPropagation();
+    onMove(marker.type, snap(getTimeFromClientX(e.clientX)));
+  }, [marker.type, snap, getTimeFromClientX, onMove]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    isDraggingRef.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }, []);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const step = e.altKey ? frameDuration : e.shiftKey ? 1 : 0.1;
+      onMove(marker.type, marker.position + (e.key === "ArrowLeft" ? -step : step));
+    } else if (e.key === "p" || e.key === "P") {
+      onMove(marker.type, currentTime);
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  }, [frameDuration, marker.type, marker.position, currentTime, onMove]);
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuenow={marker.position}
+      title={`${label} – glisser, flèches pour ajuster, P pour caler sur la lecture`}
+      className={cn(
+        "absolute top-0 h-full -translate-x-1/2 flex justify-center cursor-ew-resize touch-none z-20",
+        "focus:outline-none group",
+        variant === "waveform" ? "w-3" : "w-4"
+      )}
+      style={{ left: `${left}%` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <div className={cn("h-full w-0.5", isStart ? "bg-green-500" : "bg-red-500")} />
+      <div
+        className={cn(
+          "absolute rounded-sm shadow-md transition-transform group-focus:scale-125 group-focus:ring-2 group-focus:ring-ring",
+          isStart ? "bg-green-600" : "bg-red-600",
+          variant === "waveform" ? "top-0 h-3 w-3" : "bottom-0 h-2.5 w-2.5 rotate-45 translate-y-1/2"
+        )}
+      />
+    </div>
+  );
+};
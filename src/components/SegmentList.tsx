@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { AudioSegment } from "@/hooks/useAudio";
+import { getRecordingHours } from "@/utils/recordingTime";
+import { FileArchive, Pencil, Play, Plus, Trash2Icon } from "lucide-react";
+
+interface SegmentListProps {
+  segments: AudioSegment[];
+  selectedSegmentId: string | null;
+  onSelect: (id: string | null) => void;
+  onUpdate: (id: string, changes: Partial<Omit<AudioSegment, "id">>) => void;
+  onDelete: (id: string) => void;
+  onPlay: (segment: AudioSegment) => void;
+  onExportAll: () => void;
+  isExporting?: boolean;
+  formatBound: (segment: AudioSegment, position: number) => string;
+  formatDuration: (time: number, withMillis?: boolean) => string;
+}
+
+/**
+ * Excerpts defined on the current recording. The selected one is the segment
+ * edited by the marker controls and the timeline.
+ */
+export const SegmentList = ({
+  segments,
+  selectedSegmentId,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onPlay,
+  onExportAll,
+  isExporting = false,
+  formatBound,
+  formatDuration,
+}: SegmentListProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [editableLabel, setEditableLabel] = useState("");
+
+  const commitRename = (segment: AudioSegment) => {
+    const label = editableLabel.trim();
+    if (label) onUpdate(segment.id, { label });
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="flex flex-col glass-panel rounded-lg p-4 space-y-4 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Segments</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onSelect(null)}
+          disabled={selectedSegmentId === null}
+          title="Les prochains marqueurs créeront un nouveau segment"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Nouveau segment
+        </Button>
+      </div>
+
+      {segments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Placez un marqueur de début ou de fin pour créer un segment.
+        </p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+          {segments.map((segment) => {
+            const isSelected = segment.id === selectedSegmentId;
+            // Hourly recordings the segment spans
+            const fileCount = segment.origin ? getRecordingHours(segment.origin.date, segment.in, segment.out).length : 1;
+
+            return (
+              <div
+                key={segment.id}
+                className={cn(
+                  "p-3 rounded-md border cursor-pointer transition-colors",
+                  isSelected ? "border-primary bg-primary/5" : "hover:bg-secondary/50"
+                )}
+                style={{ borderLeftColor: segment.color, borderLeftWidth: 4 }}
+                onClick={() => onSelect(segment.id)}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={segment.color}
+                    onChange={(e) => onUpdate(segment.id, { color: e.target.value })}
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-5 w-5 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                    aria-label="Couleur du segment"
+                  />
+
+                  {renamingId === segment.id ? (
+                    <Input
+                      value={editableLabel}
+                      onChange={(e) => setEditableLabel(e.target.value)}
+                      onBlur={() => commitRename(segment)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      autoFocus
+                      className="h-7 text-sm"
+                    />
+                  ) : (
+                    <span
+                      className="flex-1 truncate text-sm font-medium flex items-center hover:underline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditableLabel(segment.label);
+                        setRenamingId(segment.id);
+                      }}
+                    >
+                      {segment.label}
+                      <Pencil className="h-3 w-3 ml-2 text-muted-foreground" />
+                    </span>
+                  )}
+
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 ml-auto"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onPlay(segment);
+                    }}
+                    disabled={segment.out <= segment.in}
+                    aria-label="Écouter le segment"
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-destructive hover:bg-red-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(segment.id);
+                    }}
+                    aria-label="Supprimer le segment"
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground font-mono">
+                  <span>{formatBound(segment, segment.in)} → {formatBound(segment, segment.out)}</span>
+                  <Badge variant="secondary" className="font-mono text-xs">
+                    {formatDuration(Math.max(0, segment.out - segment.in), true)}
+                  </Badge>
+                  {fileCount > 1 && (
+                    <Badge variant="outline" className="text-xs" title="Le segment s'étend sur plusieurs enregistrements horaires">
+                      {fileCount} heures
+                    </Badge>
+                  )}
+                </div>
+
+                {isSelected && (
+                  <Textarea
+                    value={segment.notes}
+                    onChange={(e) => onUpdate(segment.id, { notes: e.target.value })}
+                    onClick={(e) => e.stopPropagation()}
+                    placeholder="Notes"
+                    className="mt-2 min-h-[60px] text-sm"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {segments.length > 1 && (
+        <Button onClick={onExportAll} disabled={isExporting} className="w-full">
+          <FileArchive className="h-4 w-4 mr-2" />
+          {isExporting ? "Export en cours..." : `Exporter les ${segments.length} segments (ZIP)`}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { EditingSession } from "@/utils/editingSessions";
+import { FolderOpen, HardDrive, Trash2Icon } from "lucide-react";
+
+interface SessionListProps {
+  sessions: EditingSession[];
+  currentKey: string | null;
+  onOpen: (session: EditingSession) => void;
+  onDelete: (key: string) => void;
+}
+
+/**
+ * Recordings with work in progress saved in this browser, most recent first.
+ * Local files cannot be reopened from here: loading the same file again restores its work.
+ */
+export const SessionList = ({ sessions, currentKey, onOpen, onDelete }: SessionListProps) => (
+  <div className="glass-panel rounded-lg p-4 h-full flex flex-col animate-fade-in">
+    <h3 className="text-lg font-medium mb-4">Travail en cours</h3>
+
+    {sessions.length === 0 ? (
+      <p className="text-sm text-muted-foreground">
+        Les segments placés sur un enregistrement sont enregistrés ici et restaurés à sa prochaine ouverture.
+      </p>
+    ) : (
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+        {sessions.map((session) => (
+          <div
+            key={session.key}
+            className={cn(
+              "p-3 rounded-md border",
+              session.key === currentKey ? "border-primary bg-primary/5" : "hover:bg-secondary/50"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              {!session.recording && <HardDrive className="h-4 w-4 shrink-0 text-muted-foreground" />}
+              <span className="flex-1 truncate text-sm font-medium" title={session.title}>{session.title}</span>
+
+              {session.recording && session.key !== currentKey && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => onOpen(session)}
+                  aria-label="Ouvrir l'enregistrement"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-destructive hover:bg-red-100"
+                onClick={() => onDelete(session.key)}
+                aria-label="Oublier le travail en cours"
+              >
+                <Trash2Icon className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="secondary" className="text-xs">
+                {session.segments.length} segment{session.segments.length > 1 ? "s" : ""}
+              </Badge>
+              <span>modifié le {format(session.updatedAt, "d MMM à HH:mm", { locale: fr })}</span>
+            </div>
+
+            {!session.recording && session.key !== currentKey && (
+              <p className="mt-1 text-xs text-muted-foreground">Rouvrir ce fichier local pour reprendre.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+  formatShortcut,
+  getShortcutFromEvent,
+  SHORTCUT_LABELS,
+  ShortcutAction,
+  ShortcutPreferences,
+} from "@/utils/shortcuts";
+
+interface ShortcutsHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preferences: ShortcutPreferences;
+  onBind: (action: ShortcutAction, shortcut: string) => void;
+  onChange: (preferences: Partial<ShortcutPreferences>) => void;
+  onReset: () => void;
+}
+
+/**
+ * Cheat sheet of the keyboard shortcuts. Clicking a shortcut records the next key pressed
+ * in its place; Escape cancels.
+ */
+export const ShortcutsHelp = ({ open, onOpenChange, preferences, onBind, onChange, onReset }: ShortcutsHelpProps) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    setRecording(null);
+    onOpenChange(next);
+  };
+
+  const handleRecordKeyDown = (action: ShortcutAction, e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (recording !== action) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      setRecording(null);
+      return;
+    }
+    const shortcut = getShortcutFromEvent(e.nativeEvent);
+    if (!shortcut) return;
+    onBind(action, shortcut);
+    setRecording(null);
+  };
+
+  // Empty or invalid numbers leave the step unchanged
+  const updateStep = (key: "skipStep" | "nudgeStep", value: string) => {
+    const step = parseFloat(value.replace(",", "."));
+    if (step > 0) onChange({ [key]: Math.min(600, step) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      {/* Escape cancels a recording rather than closing the dialog */}
+      <DialogContent className="max-w-lg" onEscapeKeyDown={(e) => recording && e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>Raccourcis clavier</DialogTitle>
+          <DialogDescription>
+            Cliquer sur un raccourci puis appuyer sur la nouvelle touche. Les raccourcis sont enregistrés pour votre compte.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto divide-y">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map((action) => (
+            <div key={action} className="flex items-center justify-between py-1.5 text-sm">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className={cn("min-w-24 font-mono", recording === action && "ring-2 ring-ring")}
+                onClick={() => setRecording(recording === action ? null : action)}
+                onKeyDown={(e) => handleRecordKeyDown(action, e)}
+                onBlur={() => recording === action && setRecording(null)}
+              >
+                {recording === action
+                  ? "Appuyer sur une touche…"
+                  : preferences.bindings[action] ? formatShortcut(preferences.bindings[action]) : "Aucun"}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Pas de saut (s)</Label>
+            <Input
+              type="number"
+              min={0.1}
+              max={600}
+              step={1}
+              value={preferences.skipStep}
+              onChange={(e) => updateStep("skipStep", e.target.value)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Décalage d'un marqueur (s)</Label>
+            <Input
+              type="number"
+              min={0.001}
+              max={600}
+              step={0.01}
+              value={preferences.nudgeStep}
+              onChange={(e) => updateStep("nudgeStep", e.target.value)}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onReset}>
+            Rétablir les raccourcis par défaut
+          </Button>
+          <Button onClick={() => handleOpenChange(false)}>Fermer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,170 +1,367 @@
-import { useState, useEffect, useMemo, useCallback } from "react";
-import { cn } from "@/lib/utils";
-import { AudioMarker } from "@/hooks/useAudio";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { AudioMarker, AudioSegment } from "@/hooks/useAudio";
+import { WaveformPeaks } from "@/utils/waveformPeaks";
+import { useTimelineZoom } from "@/hooks/useTimelineZoom";
+import { WaveformCanvas } from "@/components/WaveformCanvas";
+import { WaveformOverview } from "@/components/WaveformOverview";
+import { MarkerHandle } from "@/components/MarkerHandle";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
 
 interface WaveformProps {
   currentTime: number;
   duration: number;
   markers: AudioMarker[];
+  segments?: AudioSegment[];
+  selectedSegmentId?: string | null;
   onSeek: (time: number) => void;
+  onMarkerMove: (type: "start" | "end", position: number) => void;
+  frameDuration: number;
   isPlaying: boolean;
+  peaks: WaveformPeaks | null;
+  isAnalysing?: boolean;
+  analysisProgress?: number;
+  wallClockStart?: number | null; // time of day at the start of the file, to label the ruler in broadcast time
 }
 
+// Candidate spacings of the time ruler, in seconds
+const TICK_STEPS = [0.1, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+const MIN_TICK_SPACING_PX = 80;
+const BUTTON_ZOOM_FACTOR = 2;
+
+// Format time for display, as a time of day when the start of the file is given
+const formatTime = (time: number, withTenths = false, wallClockStart: number | null = null) => {
+  const shown = wallClockStart !== null ? (wallClockStart + time) % 86400 : time;
+  const hours = Math.floor(shown / 3600);
+  const minutes = Math.floor((shown % 3600) / 60);
+  const seconds = Math.floor(shown % 60);
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  const tenths = withTenths ? `.${Math.floor((shown % 1) * 10)}` : '';
+  if (wallClockStart !== null) return `${hours.toString().padStart(2, '0')}:${mmss}${tenths}`;
+  return hours > 0 ? `${hours}:${mmss}${tenths}` : `${mmss}${tenths}`;
+};
+
 export const Waveform = ({
   currentTime,
   duration,
   markers,
+  segments = [],
+  selectedSegmentId = null,
   onSeek,
+  onMarkerMove,
+  frameDuration,
   isPlaying,
+  peaks,
+  isAnalysing = false,
+  analysisProgress = 0,
+  wallClockStart = null,
 }: WaveformProps) => {
-  const [waveformData, setWaveformData] = useState<number[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
-  
-  // Generate random waveform data but only once when duration changes
-  // For long files (1 hour), generate fewer points for better performance
-  useEffect(() => {
-    if (duration <= 0) return;
-    
-    // For long files (1 hour), reduce the number of data points further
-    const pointCount = duration > 1800 ? 30 : 50;
-    const data = Array.from({ length: pointCount }, () => Math.random() * 0.8 + 0.2);
-    setWaveformData(data);
-  }, [duration]);
-  
-  const startMarker = useMemo(() => 
+
+  // Active pointers, used to detect two-finger pinch gestures
+  const pointersRef = useRef(new Map<number, number>());
+  const pinchDistanceRef = useRef<number | null>(null);
+
+  const {
+    viewStart,
+    viewEnd,
+    visibleDuration,
+    isZoomed,
+    zoomAt,
+    scrollTo,
+    scrollBy,
+    zoomToFit
+  } = useTimelineZoom(duration);
+
+  const startMarker = useMemo(() =>
     markers.find(marker => marker.type === 'start'),
   [markers]);
-  
-  const endMarker = useMemo(() => 
+
+  const endMarker = useMemo(() =>
     markers.find(marker => marker.type === 'end'),
   [markers]);
-  
-  const handleWaveformClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+
+  const otherSegments = useMemo(() =>
+    segments.filter(segment => segment.id !== selectedSegmentId),
+  [segments, selectedSegmentId]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(containerRef.current);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    if (!isPlaying || !isZoomed) return;
+    if (currentTime < viewStart || currentTime > viewEnd) {
+      scrollTo(currentTime - visibleDuration * 0.1);
+    }
+  }, [isPlaying, isZoomed, currentTime, viewStart, viewEnd, visibleDuration, scrollTo]);
+
+  const getTimeFromClientX = useCallback((clientX: number) => {
+    if (!containerRef.current) return viewStart;
+    const rect = containerRef.current.getBoundingClientRect();
+    const position = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return viewStart + position * visibleDuration;
+  }, [viewStart, visibleDuration]);
+
+  // Wheel zooms around the cursor (trackpad pinches arrive as ctrl+wheel),
+  // horizontal or shift+wheel scrolls. Registered natively to be able to prevent page scrolling.
+  const wheelHandlerRef = useRef<(e: WheelEvent) => void>();
+  wheelHandlerRef.current = (e: WheelEvent) => {
+    if (duration <= 0 || width === 0) return;
+    e.preventDefault();
+
+    const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+    if (horizontal && !e.ctrlKey) {
+      const delta = e.shiftKey ? e.deltaY : e.deltaX;
+      scrollBy((delta / width) * visibleDuration);
+    } else {
+      zoomAt(Math.exp(-e.deltaY * 0.002), getTimeFromClientX(e.clientX));
+    }
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const onWheel = (e: WheelEvent) => wheelHandlerRef.current?.(e);
+    container.addEventListener('wheel', onWheel, { passive: false });
+
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const getPinchDistance = () => {
+    const [a, b] = Array.from(pointersRef.current.values());
+    return Math.abs(a - b);
+  };
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
     if (duration <= 0) return;
-    
-    const container = e.currentTarget;
-    const rect = container.getBoundingClientRect();
-    const position = (e.clientX - rect.left) / rect.width;
-    const seekTime = position * duration;
-    
-    onSeek(seekTime);
-  }, [duration, onSeek]);
-  
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+
+    pointersRef.current.set(e.pointerId, e.clientX);
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (pointersRef.current.size === 2) {
+      // Second finger down: pinch instead of seeking
+      setIsDragging(false);
+      pinchDistanceRef.current = getPinchDistance();
+      return;
+    }
+
+    setIsDragging(true);
+    onSeek(getTimeFromClientX(e.clientX));
+  }, [duration, getTimeFromClientX, onSeek]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
     if (duration <= 0) return;
-    
-    const container = e.currentTarget;
-    const rect = container.getBoundingClientRect();
-    const position = (e.clientX - rect.left) / rect.width;
-    const time = position * duration;
-    
+
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, e.clientX);
+    }
+
+    if (pointersRef.current.size === 2 && pinchDistanceRef.current) {
+      const distance = getPinchDistance();
+      const [a, b] = Array.from(pointersRef.current.values());
+      if (distance > 0) {
+        zoomAt(distance / pinchDistanceRef.current, getTimeFromClientX((a + b) / 2));
+        pinchDistanceRef.current = distance;
+      }
+      return;
+    }
+
+    const time = getTimeFromClientX(e.clientX);
     setHoverTime(time);
-    
+
     if (isDragging) {
       onSeek(time);
     }
-  }, [duration, isDragging, onSeek]);
-  
-  const handleMouseDown = useCallback(() => {
-    setIsDragging(true);
-  }, []);
-  
-  const handleMouseUp = useCallback(() => {
+  }, [duration, getTimeFromClientX, isDragging, onSeek, zoomAt]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchDistanceRef.current = null;
     setIsDragging(false);
   }, []);
-  
-  const handleMouseLeave = useCallback(() => {
+
+  const handlePointerLeave = useCallback(() => {
     setHoverTime(null);
-    setIsDragging(false);
-  }, []);
-  
-  // Format time for display
-  const formatTime = useCallback((time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   }, []);
 
+  const ticks = useMemo(() => {
+    if (width === 0 || visibleDuration <= 0) return [];
+
+    const step = TICK_STEPS.find((s) => (s / visibleDuration) * width >= MIN_TICK_SPACING_PX) ?? TICK_STEPS[TICK_STEPS.length - 1];
+    const result: number[] = [];
+    for (let i = Math.ceil(viewStart / step); i * step <= viewEnd; i++) {
+      result.push(i * step);
+    }
+    return result.map((time) => ({ time, label: formatTime(time, step < 1, wallClockStart) }));
+  }, [width, viewStart, viewEnd, visibleDuration, wallClockStart]);
+
+  const toPercent = (time: number) => (visibleDuration > 0 ? ((time - viewStart) / visibleDuration) * 100 : 0);
+  const isVisible = (time: number) => time >= viewStart && time <= viewEnd;
+
   return (
-    <div className="relative w-full h-32 glass-panel rounded-lg p-4 overflow-hidden">
-      <div 
-        className="relative w-full h-full"
-        onMouseMove={handleMouseMove}
-        onMouseDown={handleMouseDown}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
-        onClick={handleWaveformClick}
+    <div className="relative w-full glass-panel rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground font-mono">
+          {formatTime(viewStart, false, wallClockStart)} – {formatTime(viewEnd, false, wallClockStart)}
+        </span>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => zoomAt(1 / BUTTON_ZOOM_FACTOR, isVisible(currentTime) ? currentTime : viewStart + visibleDuration / 2)}
+            disabled={!isZoomed}
+            aria-label="Dézoomer"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => zoomAt(BUTTON_ZOOM_FACTOR, isVisible(currentTime) ? currentTime : viewStart + visibleDuration / 2)}
+            disabled={duration <= 0}
+            aria-label="Zoomer"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={zoomToFit}
+            disabled={!isZoomed}
+            aria-label="Tout afficher"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Time ruler */}
+      <div className="relative h-4 overflow-hidden text-[10px] text-muted-foreground font-mono select-none">
+        {ticks.map(({ time, label }) => (
+          <div
+            key={time}
+            className="absolute top-0 h-full border-l border-muted-foreground/40 pl-1"
+            style={{ left: `${toPercent(time)}%` }}
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative w-full h-28 cursor-pointer select-none touch-none overflow-hidden"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
       >
+        <WaveformCanvas
+          peaks={peaks}
+          viewStart={viewStart}
+          viewEnd={viewEnd}
+          currentTime={currentTime}
+          className="absolute inset-0"
+        />
+
+        {/* Other segments, drawn faintly in their colour */}
+        {otherSegments.filter((segment) => segment.out > viewStart && segment.in < viewEnd).map((segment) => (
+          <div
+            key={segment.id}
+            className="absolute h-full border-x z-10 pointer-events-none overflow-hidden"
+            style={{
+              left: `${Math.max(0, toPercent(segment.in))}%`,
+              right: `${Math.max(0, 100 - toPercent(segment.out))}%`,
+              backgroundColor: `${segment.color}26`,
+              borderColor: `${segment.color}99`
+            }}
+          >
+            <span className="absolute bottom-0 left-1 text-[10px] whitespace-nowrap" style={{ color: segment.color }}>
+              {segment.label}
+            </span>
+          </div>
+        ))}
+
         {/* Highlighted region between markers */}
         {startMarker && endMarker && (
-          <div 
+          <div
             className="absolute h-full bg-primary/20 z-10 pointer-events-none"
             style={{
-              left: `${(startMarker.position / duration) * 100}%`,
-              width: `${((endMarker.position - startMarker.position) / duration) * 100}%`
+              left: `${Math.max(0, toPercent(startMarker.position))}%`,
+              right: `${Math.max(0, 100 - toPercent(endMarker.position))}%`
             }}
           />
         )}
-        
-        {/* Start marker */}
-        {startMarker && (
-          <div 
-            className="marker-indicator start z-20"
-            style={{ left: `${(startMarker.position / duration) * 100}%` }}
+
+        {/* Draggable IN/OUT markers */}
+        {[startMarker, endMarker].map((marker) => marker && isVisible(marker.position) && (
+          <MarkerHandle
+            key={marker.type}
+            marker={marker}
+            left={toPercent(marker.position)}
+            getTimeFromClientX={getTimeFromClientX}
+            pixelsPerSecond={visibleDuration > 0 ? width / visibleDuration : 0}
+            currentTime={currentTime}
+            frameDuration={frameDuration}
+            onMove={onMarkerMove}
           />
-        )}
-        
-        {/* End marker */}
-        {endMarker && (
-          <div 
-            className="marker-indicator end z-20"
-            style={{ left: `${(endMarker.position / duration) * 100}%` }}
+        ))}
+
+        {/* Current time indicator */}
+        {isVisible(currentTime) && (
+          <div
+            className="absolute h-full w-0.5 bg-foreground/70 shadow-md z-30 pointer-events-none"
+            style={{ left: `${toPercent(currentTime)}%` }}
           />
         )}
-        
-        {/* Current time indicator */}
-        <div 
-          className="absolute h-full w-0.5 bg-white shadow-md z-30 transition-all duration-100 ease-out pointer-events-none"
-          style={{ left: `${(currentTime / duration) * 100}%` }}
-        />
-        
-        {/* Simplified waveform visualization with fewer bars for better performance with 1-hour files */}
-        <div className="flex items-end h-full w-full gap-[4px]">
-          {waveformData.map((value, index) => {
-            const position = (index / waveformData.length) * duration;
-            const isActive = position <= currentTime;
-            const isInMarkedRegion = startMarker && endMarker && 
-              position >= startMarker.position && 
-              position <= endMarker.position;
-              
-            const height = `${value * 100}%`;
-            
-            return (
-              <div 
-                key={index}
-                className={cn(
-                  "waveform-bar flex-1",
-                  isActive && "active",
-                  isInMarkedRegion && "bg-primary/70",
-                  isPlaying && isActive && (index % 2 === 0) && "animate-waveform"
-                )}
-                style={{ height }}
-              />
-            );
-          })}
-        </div>
-        
+
+        {/* Analysis progress while the peaks are being computed */}
+        {isAnalysing && !peaks && (
+          <div className="absolute inset-x-0 bottom-0 z-30 flex items-center gap-2 pointer-events-none">
+            <Progress value={analysisProgress * 100} className="h-1 flex-1" />
+            <span className="text-xs text-muted-foreground">Analyse de la forme d'onde...</span>
+          </div>
+        )}
+
         {/* Time tooltip on hover - only show when actually hovering */}
         {hoverTime !== null && (
-          <div 
-            className="absolute bottom-full mb-2 bg-black/80 text-white px-2 py-1 rounded text-xs transform -translate-x-1/2 pointer-events-none shadow-md"
-            style={{ left: `${(hoverTime / duration) * 100}%` }}
+          <div
+            className="absolute top-0 z-40 bg-black/80 text-white px-2 py-1 rounded text-xs transform -translate-x-1/2 pointer-events-none shadow-md"
+            style={{ left: `${toPercent(hoverTime)}%` }}
           >
-            {formatTime(hoverTime)}
+            {formatTime(hoverTime, visibleDuration < 60, wallClockStart)}
           </div>
         )}
       </div>
+
+      <WaveformOverview
+        peaks={peaks}
+        duration={duration}
+        currentTime={currentTime}
+        markers={markers}
+        segments={otherSegments}
+        viewStart={viewStart}
+        viewEnd={viewEnd}
+        onScrollTo={scrollTo}
+      />
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { getPeakLevel, WaveformPeaks } from "@/utils/waveformPeaks";
+
+interface WaveformCanvasProps {
+  peaks: WaveformPeaks | null;
+  viewStart: number; // in seconds
+  viewEnd: number; // in seconds
+  currentTime: number;
+  className?: string;
+}
+
+// Resolves a theme colour (an "h s% l%" CSS variable) for canvas drawing
+const themeColor = (variable: string, alpha = 1) => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim();
+  return value ? `hsl(${value} / ${alpha})` : `rgba(100, 116, 139, ${alpha})`;
+};
+
+/**
+ * Draws the min/max peaks of a time window, one vertical line per pixel column.
+ * Shared by the zoomable timeline and its overview.
+ */
+export const WaveformCanvas = ({
+  peaks,
+  viewStart,
+  viewEnd,
+  currentTime,
+  className,
+}: WaveformCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the element size so the canvas matches it pixel for pixel
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const observer = new ResizeObserver((entries) => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width: Math.floor(width), height: Math.floor(height) });
+    });
+    observer.observe(canvasRef.current);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const { width, height } = size;
+    if (!canvas || width === 0 || height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const middle = height / 2;
+    const visibleDuration = viewEnd - viewStart;
+
+    if (!peaks || visibleDuration <= 0) {
+      ctx.fillStyle = themeColor("--muted-foreground", 0.3);
+      ctx.fillRect(0, middle, width, 1);
+      return;
+    }
+
+    const secondsPerPixel = visibleDuration / width;
+    const level = getPeakLevel(peaks, secondsPerPixel);
+    const peaksPerSecond = peaks.sampleRate / level.samplesPerPeak;
+    const peakCount = level.data.length / 2;
+
+    const playedColor = themeColor("--primary", 0.9);
+    const unplayedColor = themeColor("--primary", 0.35);
+
+    for (let x = 0; x < width; x++) {
+      const time = viewStart + x * secondsPerPixel;
+      const from = Math.floor(time * peaksPerSecond);
+      const to = Math.min(peakCount, Math.max(from + 1, Math.floor((time + secondsPerPixel) * peaksPerSecond)));
+      if (from >= peakCount) break;
+
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to; i++) {
+        min = Math.min(min, level.data[i * 2]);
+        max = Math.max(max, level.data[i * 2 + 1]);
+      }
+
+      ctx.fillStyle = time <= currentTime ? playedColor : unplayedColor;
+      ctx.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+    }
+  }, [peaks, viewStart, viewEnd, currentTime, size]);
+
+  return <canvas ref={canvasRef} className={cn("w-full h-full", className)} />;
+};
@@ -0,0 +1,137 @@
+import { useCallback, useRef } from "react";
+import { AudioMarker, AudioSegment } from "@/hooks/useAudio";
+import { WaveformPeaks } from "@/utils/waveformPeaks";
+import { WaveformCanvas } from "@/components/WaveformCanvas";
+
+interface WaveformOverviewProps {
+  peaks: WaveformPeaks | null;
+  duration: number;
+  currentTime: number;
+  markers: AudioMarker[];
+  segments?: AudioSegment[];
+  viewStart: number;
+  viewEnd: number;
+  onScrollTo: (start: number) => void;
+}
+
+/**
+ * Minimap of the whole recording, with the window shown by the timeline.
+ * Drag the window to scroll, click elsewhere to centre the timeline there.
+ */
+export const WaveformOverview = ({
+  peaks,
+  duration,
+  currentTime,
+  markers,
+  segments = [],
+  viewStart,
+  viewEnd,
+  onScrollTo,
+}: WaveformOverviewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragOffsetRef = useRef<number | null>(null);
+
+  const startMarker = markers.find((marker) => marker.type === "start");
+  const endMarker = markers.find((marker) => marker.type === "end");
+  const visibleDuration = viewEnd - viewStart;
+
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
+  const getTimeFromClientX = useCallback((clientX: number) => {
+    if (!containerRef.current || duration <= 0) return 0;
+    const rect = containerRef.current.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  }, [duration]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+
+    const time = getTimeFromClientX(e.clientX);
+    const insideWindow = time >= viewStart && time <= viewEnd;
+
+    // Grab the window where it was clicked, or jump so that it is centred on the click
+    dragOffsetRef.current = insideWindow ? time - viewStart : visibleDuration / 2;
+    if (!insideWindow) onScrollTo(time - visibleDuration / 2);
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+  }, [duration, getTimeFromClientX, viewStart, viewEnd, visibleDuration, onScrollTo]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragOffsetRef.current === null) return;
+    onScrollTo(getTimeFromClientX(e.clientX) - dragOffsetRef.current);
+  }, [getTimeFromClientX, onScrollTo]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    dragOffsetRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }, []);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-10 rounded bg-secondary/40 cursor-pointer select-none touch-none overflow-hidden"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <WaveformCanvas
+        peaks={peaks}
+        viewStart={0}
+        viewEnd={duration}
+        currentTime={currentTime}
+        className="absolute inset-0"
+      />
+
+      {segments.map((segment) => (
+        <div
+          key={segment.id}
+          className="absolute bottom-0 h-1.5 pointer-events-none"
+          style={{
+            left: `${toPercent(segment.in)}%`,
+            width: `${toPercent(Math.max(0, segment.out - segment.in))}%`,
+            backgroundColor: segment.color
+          }}
+        />
+      ))}
+
+      {startMarker && endMarker && (
+        <div
+          className="absolute h-full bg-primary/20 pointer-events-none"
+          style={{
+            left: `${toPercent(startMarker.position)}%`,
+            width: `${toPercent(endMarker.position - startMarker.position)}%`
+          }}
+        />
+      )}
+
+      {startMarker && (
+        <div
+          className="absolute h-full w-px bg-green-600 pointer-events-none"
+          style={{ left: `${toPercent(startMarker.position)}%` }}
+        />
+      )}
+
+      {endMarker && (
+        <div
+          className="absolute h-full w-px bg-red-600 pointer-events-none"
+          style={{ left: `${toPercent(endMarker.position)}%` }}
+        />
+      )}
+
+      <div
+        className="absolute h-full w-px bg-foreground/70 pointer-events-none"
+        style={{ left: `${toPercent(currentTime)}%` }}
+      />
+
+      {/* Window currently shown by the timeline */}
+      <div
+        className="absolute inset-y-0 border-2 border-primary rounded-sm bg-primary/10 cursor-grab active:cursor-grabbing"
+        style={{
+          left: `${toPercent(viewStart)}%`,
+          width: `${Math.max(0.5, toPercent(visibleDuration))}%`
+        }}
+      />
+    </div>
+  );
+};
@@ -1,14 +1,24 @@
 
-import { useEffect } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useAudioContext } from './useAudioContext';
 import { useAudioFormatting } from './useAudioFormatting';
 import { useAudioExport } from './useAudioExport';
 import { useAudioFiles } from './useAudioFiles';
 import { useAudioState } from './useAudioState';
 import { useAudioControls } from './useAudioControls';
-import { AudioMarker, AudioFile } from './useAudioTypes';
+import { useAudioSegments } from './useAudioSegments';
+import { useWaveformPeaks } from './useWaveformPeaks';
+import { useDayPlayback } from './useDayPlayback';
+import { useDeepLink } from './useDeepLink';
+import { useAudition } from './useAudition';
+import { useEditingSessions } from './useEditingSessions';
+import { AudioMarker, AudioFile, AudioSegment } from './useAudioTypes';
+import { parseDeepLink } from '@/utils/deepLink';
 
-export type { AudioMarker, AudioFile };
+export type { AudioMarker, AudioFile, AudioSegment };
+
+// 1152 samples at 44.1 kHz
+const DEFAULT_FRAME_DURATION = 1152 / 44100;
 
 export const useAudio = () => {
   // Initialize audio state
@@ -25,8 +35,10 @@ export const useAudio = () => {
     setAudioSrc,
     audioBuffer,
     setAudioBuffer,
-    markers,
-    setMarkers,
+    segments,
+    setSegments,
+    selectedSegmentId,
+    setSelectedSegmentId,
     isBuffering,
     setIsBuffering,
     showMarkerControls,
@@ -37,15 +49,31 @@ export const useAudio = () => {
   
   // Initialize context and utils
   const { getAudioContext, isContextReady } = useAudioContext();
-  const { formatTime, formatTimeDetailed } = useAudioFormatting();
+  
+  // Recording, playhead and segment of the link the page was opened with
+  const [initialLink] = useState(() => parseDeepLink(new URLSearchParams(window.location.search)));
+  const initialRecording = useMemo(() => initialLink && {
+    canal: initialLink.canal,
+    date: initialLink.date,
+    hour: initialLink.hour,
+    typeInitial: initialLink.typeInitial,
+    position: initialLink.position
+  }, [initialLink]);
+  
+  // Set once the day playback is known, called when a file ends
+  const onEndedRef = useRef<(() => boolean) | null>(null);
   
   // Initialize controls with state dependencies
   const {
-    addMarker,
-    removeMarker,
     togglePlay,
     seek,
-    changeVolume
+    playRange,
+    playRanges,
+    changeVolume,
+    playbackRate,
+    changePlaybackRate,
+    shuttleSpeed,
+    shuttle
   } = useAudioControls({
     audioRef,
     isPlaying,
@@ -57,11 +85,9 @@ export const useAudio = () => {
     volume, 
     setVolume,
     audioSrc,
-    markers,
-    setMarkers,
     isBuffering,
     setIsBuffering,
-    formatTime
+    onEndedRef
   });
   
   // Initialize audio element if it doesn't exist
@@ -82,7 +108,8 @@ export const useAudio = () => {
     isLoading, 
     currentAudioFile, 
     loadAudioFile, 
-    loadFilesFromUNC 
+    loadFilesFromUNC,
+    resolveNextRecording
   } = useAudioFiles(
     setAudioSrc,
     setAudioBuffer,
@@ -95,17 +122,125 @@ export const useAudio = () => {
     },
     getAudioContext,
     audioRef,
-    audioSrc
+    audioSrc,
+    initialRecording
   );
   
+  // Times are shown and typed as time of day for logger recordings, unless switched to offsets
+  const fileStart = currentAudioFile?.recording ? parseInt(currentAudioFile.recording.hour, 10) * 3600 : null;
+  const {
+    formatTime,
+    formatTimeDetailed,
+    formatDuration,
+    parseTime,
+    timeDisplayMode,
+    setTimeDisplayMode,
+    wallClockStart
+  } = useAudioFormatting(fileStart);
+  
+  // Segments of the recording; the markers are the IN/OUT pair of the selected one
+  const {
+    markers,
+    selectedSegment,
+    fileSegments,
+    addMarker,
+    moveMarker,
+    selectSegment,
+    updateSegment,
+    deleteSegment,
+    resetSegments,
+    importSegment,
+    restoreSegments,
+    playSegment,
+    formatMarkerPosition,
+    formatSegmentBound,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useAudioSegments({
+    segments,
+    setSegments,
+    selectedSegmentId,
+    setSelectedSegmentId,
+    currentAudioFile,
+    audioRef,
+    currentTime,
+    duration,
+    playRange,
+    formatTime,
+    formatTimeDetailed
+  });
+  
+  // Work saved per recording, restored when it is opened again
+  const { sessions, sessionKey, removeSession } = useEditingSessions({
+    currentAudioFile,
+    segments,
+    fileSegments,
+    selectedSegmentId,
+    restoreSegments,
+    currentTime,
+    duration,
+    isLoading,
+    isPlaying,
+    audioRef,
+    seek,
+    onRestored: () => setShowMarkerControls(true)
+  });
+  
+  // Listening to the selection and around its bounds
+  const { audition, auditionRoll, setAuditionRoll } = useAudition({ markers, duration, playRanges });
+  
+  // Continuous playback of the channel's day across hourly files
+  const {
+    continuousPlayback,
+    setContinuousPlayback,
+    dayDate,
+    dayPosition,
+    availableHours,
+    seekDay,
+    handleEnded
+  } = useDayPlayback({
+    audioRef,
+    audioFiles,
+    currentAudioFile,
+    currentTime,
+    duration,
+    loadAudioFile,
+    resolveNextRecording,
+    seek
+  });
+  onEndedRef.current = handleEnded;
+  
+  // Shareable URL of the recording, playhead and selected segment
+  const { copyLink } = useDeepLink({
+    initialLink,
+    currentAudioFile,
+    currentTime,
+    isPlaying,
+    selectedSegment,
+    importSegment
+  });
+  
+  // Duration of one MP3 frame, the finest step for nudging markers
+  const frameDuration = useMemo(() => {
+    const codec = currentAudioFile?.recording?.codec;
+    if (!codec) return DEFAULT_FRAME_DURATION;
+    return (codec.version === 'MPEG-1' ? 1152 : 576) / codec.sampleRate;
+  }, [currentAudioFile]);
+  
+  // Waveform peaks of the loaded file, computed once and cached
+  const { peaks, isAnalysing, analysisProgress } = useWaveformPeaks(currentAudioFile);
+  
   // Initialize export functionality
-  const { exportTrimmedAudio } = useAudioExport(
+  const { exportOptions, exportProgress, exportTrimmedAudio, exportSegmentsAsZip, cancelExport } = useAudioExport(
     audioBuffer, 
-    markers, 
+    selectedSegment, 
     duration, 
     formatTime, 
     audioRef, 
-    currentAudioFile
+    currentAudioFile,
+    segments
   );
   
   return {
@@ -124,14 +259,57 @@ export const useAudio = () => {
     togglePlay,
     seek,
     changeVolume,
+    playbackRate,
+    changePlaybackRate,
+    shuttleSpeed,
+    shuttle,
+    audition,
+    auditionRoll,
+    setAuditionRoll,
     addMarker,
-    removeMarker,
-    setMarkers,
+    moveMarker,
+    segments,
+    selectedSegment,
+    fileSegments,
+    selectSegment,
+    updateSegment,
+    deleteSegment,
+    resetSegments,
+    playSegment,
+    formatMarkerPosition,
+    formatSegmentBound,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    sessions,
+    sessionKey,
+    removeSession,
+    exportOptions,
+    exportProgress,
     exportTrimmedAudio,
+    exportSegmentsAsZip,
+    cancelExport,
     loadAudioFile,
     loadFilesFromUNC,
     formatTime,
     formatTimeDetailed,
-    audioRef
+    formatDuration,
+    parseTime,
+    timeDisplayMode,
+    setTimeDisplayMode,
+    wallClockStart,
+    audioRef,
+    frameDuration,
+    continuousPlayback,
+    setContinuousPlayback,
+    dayDate,
+    dayPosition,
+    availableHours,
+    seekDay,
+    copyLink,
+    peaks,
+    isAnalysing,
+    analysisProgress
   };
 };
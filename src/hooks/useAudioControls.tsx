@@ -1,9 +1,37 @@
 
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
-import { AudioMarker } from './useAudioTypes';
 import { useAudioContext } from './useAudioContext';
 
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 4;
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+// Speeds the shuttle steps through each time J or L is pressed again
+const SHUTTLE_SPEEDS = [1, 1.5, 2, 3, 4];
+
+// How often the reverse shuttle moves the playhead, in ms
+const REVERSE_SHUTTLE_INTERVAL = 100;
+
+// Media time between two updates of the displayed time when playing fast, like timeupdate at 1x
+const FAST_TIME_UPDATE_STEP = 0.25;
+
+const PLAYBACK_RATE_KEY = 'playbackRate';
+
+// Seeks land on a frame near the requested time, not exactly on it
+const SEEK_TOLERANCE = 0.05;
+
+// In seconds from the start of the file
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+const clampRate = (rate: number) => Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+
+const getNextShuttleSpeed = (speed: number) =>
+  SHUTTLE_SPEEDS.find((candidate) => candidate > speed) ?? SHUTTLE_SPEEDS[SHUTTLE_SPEEDS.length - 1];
+
 export const useAudioControls = ({
   audioRef,
   isPlaying,
@@ -15,49 +43,41 @@ export const useAudioControls = ({
   volume, 
   setVolume,
   audioSrc,
-  markers,
-  setMarkers,
   isBuffering,
   setIsBuffering,
-  formatTime
+  onEndedRef
 }) => {
   const { getAudioContext } = useAudioContext();
-
-  // Add marker at current time
-  const addMarker = useCallback((type: 'start' | 'end') => {
-    // If we don't have any markers yet and the user adds a marker,
-    // let's automatically add the other one at the appropriate position
-    if (markers.length === 0) {
-      const otherType = type === 'start' ? 'end' : 'start';
-      const otherPosition = type === 'start' ? duration : 0;
-      
-      const otherMarker: AudioMarker = {
-        id: `${otherType}-${Date.now() + 1}`,
-        position: otherPosition,
-        type: otherType as 'start' | 'end'
-      };
-      
-      setMarkers([otherMarker]);
-    }
-    
-    const filteredMarkers = markers.filter(marker => marker.type !== type);
-    
-    const newMarker: AudioMarker = {
-      id: `${type}-${Date.now()}`,
-      position: currentTime,
-      type
-    };
-    
-    setMarkers([...filteredMarkers, newMarker]);
-    
-    toast.success(`Marqueur ${type === 'start' ? 'début' : 'fin'} défini à ${formatTime(currentTime)}`);
-  }, [markers, currentTime, duration, setMarkers, formatTime]);
-  
-  // Remove marker by ID
-  const removeMarker = useCallback((id: string) => {
-    setMarkers(markers.filter(marker => marker.id !== id));
-  }, [markers, setMarkers]);
   
+  // Detaches the stop listener of the range being played, if any
+  const stopRangeRef = useRef<(() => void) | null>(null);
+
+  // Rate chosen by the user, and shuttle speed overriding it: > 0 forward, < 0 backward, 0 off
+  const [playbackRate, setPlaybackRate] = useState(() => {
+    const saved = parseFloat(localStorage.getItem(PLAYBACK_RATE_KEY) ?? '');
+    return isNaN(saved) ? 1 : clampRate(saved);
+  });
+  const [shuttleSpeed, setShuttleSpeed] = useState(0);
+  const elementRate = shuttleSpeed > 0 ? shuttleSpeed : playbackRate;
+
+  useEffect(() => {
+    localStorage.setItem(PLAYBACK_RATE_KEY, String(playbackRate));
+  }, [playbackRate]);
+
+  // The default rate survives the element loading another file
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = elementRate;
+    audio.playbackRate = elementRate;
+  }, [audioRef, audioSrc, elementRate]);
+
+  const changePlaybackRate = useCallback((rate: number) => {
+    setShuttleSpeed(0);
+    setPlaybackRate(clampRate(rate));
+  }, []);
+
   // Toggle play/pause with direct HTMLAudioElement usage
   const togglePlay = useCallback(() => {
     if (!audioRef.current) {
@@ -65,6 +85,9 @@ export const useAudioControls = ({
       return;
     }
     
+    // Plain playback leaves the shuttle for the chosen rate
+    setShuttleSpeed(0);
+    
     // First ensure AudioContext is running
     const ctx = getAudioContext();
     if (ctx && ctx.state === 'suspended') {
@@ -136,6 +159,127 @@ export const useAudioControls = ({
     setTimeout(() => setIsBuffering(false), 300);
   }, [audioRef, setCurrentTime, setIsBuffering]);
   
+  /**
+   * Play ranges one after the other, jumping from the end of one to the start of the next,
+   * and pause after the last one or start again with the first when looping.
+   * Pausing, or seeking outside the ranges, ends it.
+   */
+  const playRanges = useCallback((ranges: PlaybackRange[], loop = false) => {
+    const audio = audioRef.current;
+    if (!audio || ranges.length === 0) return;
+    
+    stopRangeRef.current?.();
+    
+    let index = 0;
+    let isJumping = false;
+    const jumpTo = (time: number) => {
+      isJumping = true;
+      audio.currentTime = time;
+      setCurrentTime(time);
+    };
+
+    // Checked every frame rather than on timeupdate, which fires too rarely to stop on time at high rates
+    let frame = 0;
+    const checkEnd = () => {
+      if (audio.currentTime >= ranges[index].end) {
+        if (index < ranges.length - 1 || loop) {
+          index = (index + 1) % ranges.length;
+          jumpTo(ranges[index].start);
+        } else {
+          audio.pause();
+          return;
+        }
+      }
+      frame = requestAnimationFrame(checkEnd);
+    };
+    const handleSeeking = () => {
+      if (isJumping) {
+        isJumping = false;
+        return;
+      }
+      const time = audio.currentTime;
+      const current = ranges.findIndex((range) => time >= range.start - SEEK_TOLERANCE && time < range.end);
+      if (current < 0) cleanup();
+      else index = current;
+    };
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('pause', cleanup);
+      audio.removeEventListener('seeking', handleSeeking);
+      stopRangeRef.current = null;
+    };
+    
+    frame = requestAnimationFrame(checkEnd);
+    audio.addEventListener('pause', cleanup);
+    audio.addEventListener('seeking', handleSeeking);
+    stopRangeRef.current = cleanup;
+    
+    seek(ranges[0].start);
+    if (!isPlaying) togglePlay();
+  }, [audioRef, isPlaying, seek, togglePlay, setCurrentTime]);
+
+  // Play from start and pause at end, e.g. to listen to a segment
+  const playRange = useCallback((start: number, end: number) => {
+    playRanges([{ start, end }]);
+  }, [playRanges]);
+  
+  /**
+   * J/K/L shuttle: L plays forward and speeds up each time it is pressed again, J moves the
+   * playhead backward (silently, audio elements cannot play in reverse) and speeds up likewise,
+   * K stops.
+   */
+  const shuttle = useCallback((direction: -1 | 0 | 1) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (direction === 0) {
+      setShuttleSpeed(0);
+      if (isPlaying) audio.pause();
+    } else if (direction > 0) {
+      if (shuttleSpeed > 0 && isPlaying) {
+        setShuttleSpeed(getNextShuttleSpeed(shuttleSpeed));
+      } else {
+        if (!isPlaying) togglePlay();
+        setShuttleSpeed(SHUTTLE_SPEEDS[0]);
+      }
+    } else {
+      if (isPlaying) audio.pause();
+      setShuttleSpeed(shuttleSpeed < 0 ? -getNextShuttleSpeed(-shuttleSpeed) : -SHUTTLE_SPEEDS[0]);
+    }
+  }, [audioRef, isPlaying, shuttleSpeed, togglePlay]);
+
+  // Reverse shuttle: step the paused playhead back until K, play or the start of the file
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || shuttleSpeed >= 0) return;
+
+    const interval = setInterval(() => {
+      const time = Math.max(0, audio.currentTime + shuttleSpeed * REVERSE_SHUTTLE_INTERVAL / 1000);
+      audio.currentTime = time;
+      setCurrentTime(time);
+      if (time === 0) setShuttleSpeed(0);
+    }, REVERSE_SHUTTLE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [audioRef, shuttleSpeed, setCurrentTime]);
+
+  // Playing a file in another way ends the reverse shuttle
+  useEffect(() => {
+    if (isPlaying) setShuttleSpeed((speed) => Math.max(0, speed));
+  }, [isPlaying]);
+  useEffect(() => {
+    setShuttleSpeed(0);
+  }, [audioSrc]);
+
+  // timeupdate fires about 4 times per second whatever the rate: poll faster when playing fast
+  // so the displayed time moves by the same media step
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying || elementRate <= 1) return;
+
+    const interval = setInterval(() => setCurrentTime(audio.currentTime), FAST_TIME_UPDATE_STEP * 1000 / elementRate);
+    return () => clearInterval(interval);
+  }, [audioRef, isPlaying, elementRate, setCurrentTime]);
+
   // Change volume
   const changeVolume = useCallback((value: number) => {
     if (!audioRef.current) return;
@@ -173,6 +317,8 @@ export const useAudioControls = ({
     
     const endedHandler = () => {
       console.log("Audio ended event triggered");
+      // Continuous playback may roll over to the next file instead
+      if (onEndedRef.current?.()) return;
       setIsPlaying(false);
       setCurrentTime(0);
     };
@@ -205,10 +351,14 @@ export const useAudioControls = ({
   }, [audioRef.current]);
   
   return {
-    addMarker,
-    removeMarker,
     togglePlay,
     seek,
-    changeVolume
+    playRange,
+    playRanges,
+    changeVolume,
+    playbackRate,
+    changePlaybackRate,
+    shuttleSpeed,
+    shuttle
   };
 };
@@ -11,7 +11,6 @@ interface EventHandlerProps {
   cleanup: () => void;
   animationRef: React.MutableRefObject<number | null>;
   initializeMarkers: (duration: number) => void;
-  fetchAndDecodeAudio: (url: string) => Promise<AudioBuffer | null>;
   setAudioBuffer: (buffer: AudioBuffer | null) => void;
 }
 
@@ -23,7 +22,6 @@ export const useAudioEventHandlers = ({
   setIsBuffering,
   cleanup,
   initializeMarkers,
-  fetchAndDecodeAudio,
   setAudioBuffer
 }: EventHandlerProps) => {
   
@@ -113,40 +111,9 @@ export const useAudioEventHandlers = ({
     // Manually trigger a load to ensure metadata loads
     audio.load();
     
-    const loadBuffer = async () => {
-      setAudioBuffer(null);
-      
-      if (!audioSrc) return;
-      
-      try {
-        // For blob URLs, try to fetch and decode the audio data
-        if (audioSrc.startsWith('blob:')) {
-          console.log("Loading buffer for blob URL:", audioSrc);
-          
-          const buffer = await fetchAndDecodeAudio(audioSrc);
-          if (buffer) {
-            console.log("Successfully decoded blob audio buffer, duration:", buffer.duration);
-            setAudioBuffer(buffer);
-          } else {
-            console.warn("Failed to decode audio buffer from blob URL");
-          }
-        } else {
-          // For other sources, use the existing logic
-          const buffer = await fetchAndDecodeAudio(audioSrc);
-          if (buffer) {
-            setAudioBuffer(buffer);
-            console.log("Audio buffer loaded successfully");
-          }
-        }
-      } catch (error) {
-        console.error('Error loading audio buffer:', error);
-      } finally {
-        setIsBuffering(false);
-      }
-    };
-    
-    // Delay buffer loading to prioritize metadata and UI responsiveness
-    const bufferTimeout = setTimeout(loadBuffer, 2000);
+    // The file is not decoded here: the waveform and the exports go through
+    // the audio processing worker
+    setAudioBuffer(null);
     
     return () => {
       audio.removeEventListener('loadeddata', setAudioData);
@@ -158,9 +125,8 @@ export const useAudioEventHandlers = ({
       audio.removeEventListener('canplay', onCanPlay);
       audio.removeEventListener('play', onPlay);
       audio.removeEventListener('canplaythrough', onCanPlayThrough);
-      clearTimeout(bufferTimeout);
     };
-  }, [audioRef, setDuration, setCurrentTime, setIsPlaying, setIsBuffering, cleanup, initializeMarkers, fetchAndDecodeAudio, setAudioBuffer]);
+  }, [audioRef, setDuration, setCurrentTime, setIsPlaying, setIsBuffering, cleanup, initializeMarkers, setAudioBuffer]);
 
   return {
     setupAudioEvents
@@ -1,138 +1,560 @@
-
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useState } from 'react';
 import { toast } from 'sonner';
-import { AudioMarker } from './useAudioTypes';
+import { AudioFile, AudioSegment } from './useAudioTypes';
 import { useAudioContext } from './useAudioContext';
-import { ffmpeg } from '@/utils/ffmpegInstance';
-import { fetchFile } from '@ffmpeg/util';
+import { useSettings } from '@/contexts/SettingsContext';
+import { ZipEntry } from '@/utils/zipWriter';
+import {
+  createZipInWorker,
+  ProcessingError,
+  releaseRecordings,
+  storeRecording,
+  transcode,
+  trimRecordings
+} from '@/utils/audioProcessing';
+import { getRecordingSeekIndexUrl, getRecordingUrl } from '@/utils/recordingService';
+import { getRecordingHours, toDayTime } from '@/utils/recordingTime';
+import {
+  DEFAULT_EXPORT_FILENAME_TEMPLATE,
+  formatExportFileName,
+  formatFileNameTime
+} from '@/utils/exportNaming';
+import { formatWallClock } from '@/utils/timeFormat';
+import {
+  ClipMetadata,
+  createId3Tag,
+  createSidecar,
+  getCurrentUser,
+  getMetadataArgs,
+  getSidecarFileName
+} from '@/utils/exportMetadata';
+import typesConfig from '@/config/types.json';
+import {
+  formatLoudness,
+  getFadeFilters,
+  getLoudnormFilter,
+  parseLoudnormReport
+} from '@/utils/audioFilters';
+import {
+  EXPORT_FORMATS,
+  ExportOptions,
+  getDeliveredRange,
+  getExportCodecArgs,
+  isStreamCopy,
+  loadExportOptions,
+  saveExportOptions
+} from '@/utils/exportOptions';
 // import { trimmedBufferToWav } from '@/utils/audioUtils';
 
+// A file the segment is cut from
+interface SegmentSource {
+  name: string;
+  url: string;
+  indexUrl: string | null; // seek index, to download only the part of the file a segment needs
+  offset: number; // start of the file, in the segment's time reference
+}
+
+// Downloads into the audio processing worker shared by the segments of one export,
+// keyed by URL and span, to the key of the downloaded recording
+type SourceCache = Map<string, Promise<string>>;
+
+// Seconds of audio ffmpeg decodes before a segment, as the first MP3 frames of a cut
+// lack the data they borrow from the previous ones
+const DECODER_PRE_ROLL = 1;
+
+// Share of a segment's progress given to downloading its recordings, the rest going to ffmpeg
+const DOWNLOAD_SHARE = 0.3;
+
+// Raised when the user stops an export
+class ExportCancelledError extends Error {
+  constructor() {
+    super('Export annulé');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+// Frees the recordings an export downloaded into the worker
+const releaseSources = async (cache: SourceCache) => {
+  const keys = await Promise.allSettled(cache.values());
+  releaseRecordings(keys.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : [])));
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const downloadLink = document.createElement('a');
+  downloadLink.href = url;
+  downloadLink.download = fileName;
+  document.body.appendChild(downloadLink);
+  downloadLink.click();
+  document.body.removeChild(downloadLink);
+  URL.revokeObjectURL(url);
+};
+
 export const useAudioExport = (
   audioBuffer: AudioBuffer | null,
-  markers: AudioMarker[],
+  selectedSegment: AudioSegment | null,
   duration: number,
   formatTime: (time: number) => string,
   audioRef: React.RefObject<HTMLAudioElement>,
-  currentAudioFile: { name: string; url: string } | null
+  currentAudioFile: AudioFile | null,
+  segments: AudioSegment[]
 ) => {
   const processingRef = useRef<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
   const { getAudioContext } = useAudioContext();
+  const { settings } = useSettings();
+  const [exportOptions, setExportOptionsState] = useState(loadExportOptions);
 
-  let loadPromise: Promise<void> | null = null;
+  // The last options used are remembered for the logged-in user
+  const setExportOptions = useCallback((options: ExportOptions) => {
+    setExportOptionsState(options);
+    saveExportOptions(options);
+  }, []);
 
-  const initializeFFmpeg = useCallback(async () => {
-    if (!ffmpeg.isLoaded()) {
-      if (!loadPromise) {
-        loadPromise = ffmpeg.load();
-      }
-      await loadPromise;
-      console.log('FFmpeg.wasm is ready (via memoized load)!');
+  // Files covering a segment: the consecutive hourly recordings of its channel
+  // (across midnight if needed), or the loaded file for local audio
+  const getSegmentSources = useCallback((segment: AudioSegment): SegmentSource[] => {
+    if (segment.origin) {
+      const { canal, date, typeInitial } = segment.origin;
+      return getRecordingHours(date, segment.in, segment.out).map((hour) => ({
+        name: `${typeInitial}_${canal}_${hour.date}_${hour.hour}.mp3`,
+        url: getRecordingUrl(canal, hour.date, hour.hour),
+        indexUrl: getRecordingSeekIndexUrl(canal, hour.date, hour.hour),
+        offset: hour.offset
+      }));
     }
+
+    const url = currentAudioFile?.url || audioRef.current?.src;
+    return url ? [{ name: currentAudioFile?.name ?? 'audio.mp3', url, indexUrl: null, offset: 0 }] : [];
+  }, [currentAudioFile, audioRef]);
+
+  // Downloads the part of a recording covering [start, end] of the segment's time reference,
+  // or the whole recording when its seek index is unavailable
+  const fetchSource = useCallback((
+    source: SegmentSource,
+    start: number,
+    end: number,
+    cache: SourceCache,
+    signal: AbortSignal,
+    onProgress: (ratio: number) => void
+  ) => {
+    const span = { start: Math.max(0, start - source.offset), end: end - source.offset };
+    const cacheKey = `${source.url} ${span.start}-${span.end}`;
+    if (!cache.has(cacheKey)) {
+      cache.set(cacheKey, (async () => {
+        try {
+          return await storeRecording(source.url, { span, indexUrl: source.indexUrl ?? undefined, signal, onProgress });
+        } catch (error) {
+          if (signal.aborted) throw new ExportCancelledError();
+          if (error instanceof ProcessingError && error.status === 404) {
+            throw new Error(`Enregistrement introuvable : ${source.name}`);
+          }
+          if (error instanceof ProcessingError && error.status === 0) {
+            throw new Error(`Impossible de télécharger ${source.name}, vérifiez la connexion au serveur`);
+          }
+          throw error;
+        }
+      })());
+    }
+    return cache.get(cacheKey)!;
   }, []);
 
-  const exportTrimmedAudio = useCallback(async () => {
+  // Date and time of day of a segment bound, when the segment comes from the logger
+  const getWallClock = useCallback((segment: AudioSegment, position: number) =>
+    segment.origin ? toDayTime(segment.origin.date, position) : null,
+  []);
+
+  // Tags of a clip: its channel and type as named in the settings, and its absolute bounds
+  const getClipMetadata = useCallback((segment: AudioSegment, sources: SegmentSource[]): ClipMetadata => {
+    const origin = segment.origin;
+    const cities = origin?.typeInitial === 'R' ? settings?.cities?.retours : settings?.cities?.departs;
+    const describeBound = (position: number) => {
+      const wallClock = getWallClock(segment, position);
+      return wallClock ? `${wallClock.date} ${formatWallClock(wallClock.seconds, true)}` : null;
+    };
+
+    return {
+      title: segment.label,
+      channel: origin ? cities?.find((city) => city.folderName === origin.canal)?.displayName ?? origin.canal : null,
+      canal: origin?.canal ?? null,
+      type: origin ? typesConfig.find((type) => type.initial === origin.typeInitial)?.displayName ?? origin.typeInitial : null,
+      date: getWallClock(segment, segment.in)?.date ?? null,
+      start: describeBound(segment.in),
+      end: describeBound(segment.out),
+      exportedBy: getCurrentUser(),
+      exportedAt: new Date().toISOString(),
+      notes: segment.notes,
+      sources: sources.map((source) => source.name)
+    };
+  }, [settings, getWallClock]);
+
+  // Cut a segment from its recordings, of which only the part covering the segment is downloaded
+  // into the audio processing worker. MP3 frames are cut there as they are, and tagged, unless the options
+  // ask for another format, quality, filters or a precise cut: ffmpeg then gets the frames, from a little
+  // before the segment, and decodes, trims and re-encodes them, placing the bounds exactly to the sample.
+  // Loudness normalization takes two passes: the first measures the clip, the second applies a linear gain.
+  // Aborting the signal stops the download or terminates ffmpeg, which discards its files.
+  const extractSegment = useCallback(async (
+    segment: AudioSegment,
+    cache: SourceCache,
+    options: ExportOptions,
+    signal: AbortSignal,
+    onProgress: (ratio: number) => void
+  ) => {
+    const sources = getSegmentSources(segment);
+    if (sources.length === 0) {
+      throw new Error('Aucun audio chargé');
+    }
+
+    const streamCopy = isStreamCopy(options);
+    const from = segment.in - (streamCopy ? 0 : DECODER_PRE_ROLL);
+    const downloads = sources.map(() => 0);
+    const keys = await Promise.all(sources.map((source, index) => fetchSource(source, from, segment.out, cache, signal, (ratio) => {
+      downloads[index] = ratio;
+      onProgress(DOWNLOAD_SHARE * downloads.reduce((total, value) => total + value, 0) / sources.length);
+    })));
+    onProgress(DOWNLOAD_SHARE);
+
+    const metadata = getClipMetadata(segment, sources);
+
+    // Runs a worker request, telling a cancellation from a failure
+    const runInWorker = async <T,>(operation: () => Promise<T>) => {
+      try {
+        return await operation();
+      } catch (error) {
+        if (signal.aborted) throw new ExportCancelledError();
+        throw error;
+      }
+    };
+
+    const clip = await runInWorker(() => trimRecordings(
+      sources.map((source, index) => ({ key: keys[index], offset: source.offset })),
+      from,
+      segment.out,
+      streamCopy ? createId3Tag(metadata) : null,
+      signal
+    ));
+
+    if (streamCopy) {
+      if (!clip) {
+        throw new Error('Seul un enregistrement MP3 peut être coupé sans réencodage : choisissez un autre format ou la coupe précise');
+      }
+      onProgress(1);
+      return { data: clip.data, sources, metadata, precise: false, delivered: { in: clip.in, out: clip.out }, loudness: null };
+    }
+
+    // A local file that is not an MP3 goes to ffmpeg whole, from where the worker stored it
+    const input = clip ? clip.data : keys[0];
+    // Where the decoded input starts, in the segment's time reference: a player drops the
+    // encoder and decoder delays at the start of a recording, ffmpeg does not on a cut
+    const inputStart = clip ? clip.in - clip.startPadding : sources[0].offset;
+    const start = segment.in - inputStart;
+    const end = segment.out - inputStart;
+    const passes = options.normalize ? 2 : 1;
+
+    const inputName = 'input.mp3';
+    const outputName = `output.${EXPORT_FORMATS[options.format].extension}`;
+    const codecArgs = getExportCodecArgs(options, clip && { bitrate: clip.bitrate, sampleRate: clip.sampleRate });
+    const inputArgs = ['-i', inputName];
+
+    // Runs one pass in the worker, reporting its progress from the time reached in the clip.
+    // The clip's bytes are transferred: a pass followed by another gets a copy
+    const runPass = (pass: number, args: string[], passOutput?: string) => {
+      const passInput = typeof input !== 'string' && pass < passes - 1 ? input.slice() : input;
+      return runInWorker(() => transcode(passInput, inputName, args, {
+        outputName: passOutput,
+        duration: end - start,
+        signal,
+        onProgress: (ratio) => onProgress(DOWNLOAD_SHARE + (1 - DOWNLOAD_SHARE) * (pass + ratio) / passes)
+      })).catch((error) => {
+        if (error instanceof ProcessingError) throw new Error(`La découpe de l'extrait a échoué : ${error.message}`);
+        throw error;
+      });
+    };
+
+    // Trimming in the filters decodes the input from its start, which places the cut exactly,
+    // and gives the other filters a clip starting at 0
+    const filters = [
+      `atrim=start=${start.toFixed(6)}:end=${end.toFixed(6)}`,
+      'asetpts=PTS-STARTPTS',
+      ...getFadeFilters(end - start, options.fadeIn, options.fadeOut)
+    ];
+    const target = { integrated: options.targetLoudness, truePeak: options.truePeak };
+
+    if (options.normalize) {
+      const { log } = await runPass(0, [
+        ...inputArgs,
+        '-af', [...filters, getLoudnormFilter(target)].join(','),
+        '-f', 'null', '-'
+      ]);
+      const measured = parseLoudnormReport(log.join('\n'));
+      // A silent clip cannot be measured and is exported as is
+      if (measured) filters.push(getLoudnormFilter(target, measured));
+      else console.warn('Loudness could not be measured, the clip is not normalized');
+    }
+
+    const { data, log } = await runPass(passes - 1, [
+      ...inputArgs,
+      '-af', filters.join(','),
+      ...codecArgs,
+      ...getMetadataArgs(metadata, options.format),
+      outputName
+    ], outputName);
+    const loudness = options.normalize ? parseLoudnormReport(log.join('\n')) : null;
+
+    // Where the delivered audio really starts and ends, in the segment's time reference
+    const delivered = getDeliveredRange(segment.in, segment.out, options.sampleRate ?? clip?.sampleRate ?? null);
+
+    return {
+      data: data!,
+      sources,
+      metadata,
+      precise: true,
+      delivered,
+      loudness: loudness && { before: loudness.input, after: loudness.output }
+    };
+  }, [getSegmentSources, fetchSource, getClipMetadata]);
+
+  const getSegmentFileName = useCallback((segment: AudioSegment, index: number, options: ExportOptions) => {
+    const start = getWallClock(segment, segment.in);
+    const end = getWallClock(segment, segment.out);
+
+    return formatExportFileName(settings?.exportFileNameTemplate || DEFAULT_EXPORT_FILENAME_TEMPLATE, {
+      type: segment.origin?.typeInitial,
+      canal: segment.origin?.canal,
+      date: start?.date,
+      hour: start ? Math.floor(start.seconds / 3600).toString().padStart(2, '0') : undefined,
+      in: formatFileNameTime(start?.seconds ?? segment.in),
+      out: formatFileNameTime(end?.seconds ?? segment.out),
+      label: segment.label,
+      index: (index + 1).toString().padStart(2, '0'),
+      source: currentAudioFile?.name.replace(/\.[^/.]+$/, "") ?? 'audio'
+    }, EXPORT_FORMATS[options.format].extension);
+  }, [settings, currentAudioFile, getWallClock]);
+
+  const describeSegmentRange = useCallback((segment: AudioSegment) => {
+    const start = getWallClock(segment, segment.in);
+    const end = getWallClock(segment, segment.out);
+    return start && end
+      ? `${formatWallClock(start.seconds)} à ${formatWallClock(end.seconds)}`
+      : `${formatTime(segment.in)} à ${formatTime(segment.out)}`;
+  }, [getWallClock, formatTime]);
+
+  const exportTrimmedAudio = useCallback(async (options: ExportOptions = exportOptions) => {
     if (processingRef.current) {
       toast.info('Traitement en cours, veuillez patienter...');
       return;
     }
 
     processingRef.current = true;
+    setExportOptions(options);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const cache: SourceCache = new Map();
 
     try {
       toast.info('Préparation de l\'audio pour l\'export...');
 
-      if (!audioRef.current || !audioRef.current.src) {
-        toast.error('Aucun audio chargé');
-        processingRef.current = false;
+      if (!selectedSegment) {
+        toast.error('Vous devez définir au moins un marqueur');
         return;
       }
 
-      const url = currentAudioFile?.url || audioRef.current.src;
-      console.log("Fetching MP3 from URL:", url);
-
-      const response = await fetch(url);
-      const mp3Blob = await response.blob();
+      if (selectedSegment.in >= selectedSegment.out) {
+        toast.error('Le marqueur de début doit être avant celui de fin');
+        return;
+      }
 
-      if (mp3Blob.size === 0) {
-        throw new Error("MP3 Blob is empty. Cannot export.");
+      setExportProgress(0);
+      const { data, metadata, precise, delivered, loudness } = await extractSegment(
+        selectedSegment,
+        cache,
+        options,
+        controller.signal,
+        (ratio) => setExportProgress(Math.round(ratio * 100) / 100)
+      );
+      const format = EXPORT_FORMATS[options.format];
+      const fileName = getSegmentFileName(selectedSegment, 0, options);
+      downloadBlob(new Blob([data.buffer], { type: format.mimeType }), fileName);
+      if (options.sidecar) {
+        downloadBlob(new Blob([createSidecar(metadata)], { type: 'application/json' }), getSidecarFileName(fileName));
       }
 
-      const mp3File = new File([mp3Blob], 'input.mp3');
+      // Frame-aligned cuts tell how far they are from the markers
+      const shift = Math.round(Math.max(
+        Math.abs(delivered.in - selectedSegment.in),
+        Math.abs(delivered.out - selectedSegment.out)
+      ) * 1000);
 
-      const startMarker = markers.find(marker => marker.type === 'start');
-      const endMarker = markers.find(marker => marker.type === 'end');
+      const details = [
+        precise || shift === 0
+          ? `Audio découpé de ${describeSegmentRange(selectedSegment)}`
+          : `Audio découpé de ${describeSegmentRange(selectedSegment)}, calé sur les trames MP3 (écart jusqu'à ${shift} ms)`
+      ];
+      if (loudness) {
+        details.push(`Volume : ${formatLoudness(loudness.before)} avant, ${formatLoudness(loudness.after)} après`);
+      } else if (options.normalize) {
+        details.push('Volume non normalisé : extrait silencieux');
+      }
 
-      if (!startMarker && !endMarker) {
-        toast.error('Vous devez définir au moins un marqueur');
-        processingRef.current = false;
+      toast.success(`Export ${format.label} terminé avec succès`, {
+        description: details.join('. '),
+        duration: options.normalize ? 15000 : 8000
+      });
+    } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        toast.info('Export annulé');
         return;
       }
+      console.error('Error exporting audio:', error);
+      toast.error('Erreur lors de l\'export du fichier audio', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      releaseSources(cache);
+      processingRef.current = false;
+      abortRef.current = null;
+      setExportProgress(null);
+    }
+  }, [exportOptions, setExportOptions, selectedSegment, extractSegment, getSegmentFileName, describeSegmentRange]);
 
-      const startTime = startMarker ? startMarker.position : 0;
-      const endTime = endMarker ? endMarker.position : duration;
+  // Export every segment, named from the settings template,
+  // in a single ZIP with a manifest.json describing them, using the last export options
+  const exportSegmentsAsZip = useCallback(async () => {
+    if (processingRef.current) {
+      toast.info('Traitement en cours, veuillez patienter...');
+      return;
+    }
 
-      if (startTime >= endTime) {
-        toast.error('Le marqueur de début doit être avant celui de fin');
-        processingRef.current = false;
-        return;
-      }
+    const validSegments = segments.filter(segment => segment.out > segment.in);
+    if (validSegments.length === 0) {
+      toast.error('Aucun segment valide à exporter');
+      return;
+    }
+
+    processingRef.current = true;
+    const toastId = 'segments-export';
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setExportProgress(0);
+    const cache: SourceCache = new Map();
 
-      await initializeFFmpeg();
+    try {
+      const entries: ZipEntry[] = [];
+      const manifestSegments = [];
+      const usedNames = new Set<string>();
 
-      console.log("Writing MP3 file to FFmpeg FS...");
-      ffmpeg.FS('writeFile', 'input.mp3', await fetchFile(mp3File));
+      for (const [index, segment] of validSegments.entries()) {
+        const message = `Export du segment ${index + 1}/${validSegments.length} : ${segment.label}`;
+        const cancel = { label: 'Annuler', onClick: () => controller.abort() };
+        toast.loading(message, { id: toastId, action: cancel });
 
-      console.log("Running FFmpeg trim command...");
-      await ffmpeg.run(
-        '-ss', startTime.toString(),
-        '-to', endTime.toString(),
-        '-i', 'input.mp3',
-        '-c', 'copy',
-        'output.mp3'
-      );
+        let percent = -1;
+        const { data, sources, metadata, precise, delivered, loudness } = await extractSegment(
+          segment,
+          cache,
+          exportOptions,
+          controller.signal,
+          (ratio) => {
+            const progress = (index + ratio) / validSegments.length;
+            setExportProgress(Math.round(progress * 100) / 100);
+            if (Math.round(progress * 100) !== percent) {
+              percent = Math.round(progress * 100);
+              toast.loading(`${message} (${percent} %)`, { id: toastId, action: cancel });
+            }
+          }
+        );
 
-      const mp3Data = ffmpeg.FS('readFile', 'output.mp3');
-      const trimmedMp3Blob = new Blob([mp3Data.buffer], { type: 'audio/mpeg' });
+        // Two segments can produce the same name, e.g. without {label} or {index} in the template
+        const extension = EXPORT_FORMATS[exportOptions.format].extension;
+        const baseName = getSegmentFileName(segment, index, exportOptions).slice(0, -(extension.length + 1));
+        let fileName = `${baseName}.${extension}`;
+        for (let copy = 2; usedNames.has(fileName); copy++) {
+          fileName = `${baseName}_${copy}.${extension}`;
+        }
+        usedNames.add(fileName);
 
-      // Format file name
-      const formatTimeForFilename = (timeInSeconds: number) => {
-        const minutes = Math.floor(timeInSeconds / 60);
-        const seconds = Math.floor(timeInSeconds % 60);
-        return `${minutes.toString().padStart(2, '0')}m${seconds.toString().padStart(2, '0')}s`;
-      };
+        // Offsets are given in the first and last source files
+        const describeBound = (position: number, source: SegmentSource) => {
+          const wallClock = getWallClock(segment, position);
+          return {
+            date: wallClock?.date ?? null,
+            wallClock: wallClock ? formatWallClock(wallClock.seconds, true) : null,
+            offset: position - source.offset
+          };
+        };
 
-      const startTimeFormatted = formatTimeForFilename(startTime);
-      const endTimeFormatted = formatTimeForFilename(endTime);
-      const mp3FileName = `${currentAudioFile?.name.replace(/\.[^/.]+$/, "") ?? 'audio'}_${startTimeFormatted}_${endTimeFormatted}.mp3`;
-
-      // Trigger download
-      const mp3Url = URL.createObjectURL(trimmedMp3Blob);
-      const downloadLink = document.createElement('a');
-      downloadLink.href = mp3Url;
-      downloadLink.download = mp3FileName;
-      document.body.appendChild(downloadLink);
-      downloadLink.click();
-      document.body.removeChild(downloadLink);
-
-      toast.success(`Export MP3 terminé avec succès`, {
-        description: `Audio découpé de ${formatTime(startTime)} à ${formatTime(endTime)}`,
-        duration: 8000
+        entries.push({ name: fileName, data });
+        if (exportOptions.sidecar) {
+          entries.push({ name: getSidecarFileName(fileName), data: createSidecar(metadata) });
+        }
+        manifestSegments.push({
+          file: fileName,
+          label: segment.label,
+          notes: segment.notes,
+          color: segment.color,
+          canal: segment.origin?.canal ?? null,
+          sources: sources.map((source) => source.name),
+          in: describeBound(segment.in, sources[0]),
+          out: describeBound(segment.out, sources[sources.length - 1]),
+          duration: segment.out - segment.in,
+          // What the file really contains: a cut without re-encoding falls on MP3 frame boundaries
+          precise,
+          delivered: {
+            in: describeBound(delivered.in, sources[0]),
+            out: describeBound(delivered.out, sources[sources.length - 1]),
+            duration: delivered.out - delivered.in
+          },
+          loudness
+        });
+      }
+
+      const manifest = {
+        exportedAt: new Date().toISOString(),
+        options: exportOptions,
+        segments: manifestSegments
+      };
+      entries.push({
+        name: 'manifest.json',
+        data: new TextEncoder().encode(JSON.stringify(manifest, null, 2))
       });
 
-      // Cleanup
-      URL.revokeObjectURL(mp3Url);
-      ffmpeg.FS('unlink', 'input.mp3');
-      ffmpeg.FS('unlink', 'output.mp3');
+      const zipName = `${currentAudioFile?.name.replace(/\.[^/.]+$/, "") ?? 'audio'}_segments.zip`;
+      downloadBlob(await createZipInWorker(entries), zipName);
 
+      toast.success('Export ZIP terminé avec succès', {
+        id: toastId,
+        description: `${validSegments.length} segments exportés`,
+        duration: 8000
+      });
     } catch (error) {
-      console.error('Error exporting audio:', error);
-      toast.error('Erreur lors de l\'export du fichier audio');
+      if (error instanceof ExportCancelledError) {
+        toast.info('Export des segments annulé', { id: toastId });
+        return;
+      }
+      console.error('Error exporting segments:', error);
+      toast.error('Erreur lors de l\'export des segments', {
+        id: toastId,
+        description: error instanceof Error ? error.message : undefined
+      });
     } finally {
+      releaseSources(cache);
       processingRef.current = false;
+      abortRef.current = null;
+      setExportProgress(null);
     }
-  }, [markers, duration, formatTime, currentAudioFile, initializeFFmpeg]);
+  }, [segments, currentAudioFile, exportOptions, extractSegment, getSegmentFileName, getWallClock]);
+
+  const cancelExport = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   return {
-    exportTrimmedAudio
+    exportOptions,
+    exportProgress,
+    exportTrimmedAudio,
+    exportSegmentsAsZip,
+    cancelExport
   };
 };
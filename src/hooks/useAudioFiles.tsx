@@ -1,11 +1,31 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
-import { format } from 'date-fns';
-import { AudioFile } from './useAudioTypes';
+import { format, parseISO } from 'date-fns';
+import { AudioFile, RecordingSource } from './useAudioTypes';
 import { useSettings } from '@/contexts/SettingsContext';
 import citiesConfig from "@/config/cities.json";
 import { getTypeInitial } from '@/utils/getTypeInitial';
+import { fetchRecordings, formatFileSize, RecordingInfo, RecordingServiceError } from '@/utils/recordingService';
+import { SECONDS_PER_HOUR, toDayTime } from '@/utils/recordingTime';
+
+// Logger recording as listed in the file browser
+const toAudioFile = (recording: RecordingInfo, typeInitial: string, folderPath: string, separator: string): AudioFile => ({
+  name: `${typeInitial}_${recording.canal}_${recording.date}_${recording.hour}.mp3`,
+  path: `${folderPath}${separator}${recording.fileName}`,
+  url: recording.url,
+  size: formatFileSize(recording.size),
+  type: 'audio/mpeg',
+  lastModified: format(new Date(recording.lastModified), 'yyyy-MM-dd HH:mm'),
+  duration: recording.duration,
+  recording: {
+    canal: recording.canal,
+    date: recording.date,
+    hour: recording.hour,
+    typeInitial,
+    codec: recording.codec
+  }
+});
 
 export const useAudioFiles = (
   setAudioSrc: (src: string | null) => void,
@@ -15,16 +35,18 @@ export const useAudioFiles = (
   initializeMarkers: (duration: number) => void,
   getAudioContext: () => AudioContext | null,
   audioRef: React.RefObject<HTMLAudioElement>,
-  audioSrc: string | null
+  audioSrc: string | null,
+  initialRecording: (RecordingSource & { position: number }) | null = null
 ) => {
   const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [currentAudioFile, setCurrentAudioFile] = useState<AudioFile | null>(null);
   const { settings } = useSettings();
   
-  const loadAudioFileRef = useRef<(file: AudioFile) => void>();
+  const loadAudioFileRef = useRef<(file: AudioFile) => Promise<void>>();
 
-  const loadAudioFile = useCallback((file: AudioFile): Promise<void> =>{
+  // The player reads `mediaUrl`, e.g. a blob of a prefetched recording, in place of the file's URL
+  const loadAudioFile = useCallback((file: AudioFile, mediaUrl = file.url): Promise<void> =>{
     return new Promise((resolve, reject) => {
       setIsLoading(true);
       setCurrentAudioFile(file);
@@ -38,11 +60,10 @@ export const useAudioFiles = (
       
       setAudioBuffer(null);
       
-      if (file.path.startsWith('/') || file.path.startsWith('blob:') || file.path.startsWith('http')) {
-        console.log("Loading large local file:", file.name, file.path);
+      if (mediaUrl.startsWith('/') || mediaUrl.startsWith('blob:') || mediaUrl.startsWith('http')) {
+        console.log("Loading large file:", file.name, mediaUrl);
 
-        const normalizedPath = encodeURI(file.path.replace(/\\/g, '/'));
-        console.log("Normalized path:", normalizedPath);
+        const normalizedPath = mediaUrl;
         
         if (audioRef.current) {
           const audio = audioRef.current;
@@ -127,54 +148,95 @@ export const useAudioFiles = (
     loadAudioFileRef.current = loadAudioFile;
   }, [loadAudioFile]);
   
-  const loadFilesFromUNC = useCallback(async (path: string, city: string, date: Date, hour: string | null, typeInitial: string) => {
+  // Lists a day of recordings and loads the given hour, seeking to `position` seconds in it if given
+  const loadFilesFromUNC = useCallback(async (path: string, city: string, date: Date, hour: string | null, typeInitial: string, position = 0) => {
     setIsLoading(true);
-    
-    setTimeout(() => {
-      const dateStr = format(date, 'yyyy-MM-dd');
-      
-      if (hour) {
-        const mockFile: AudioFile = {
-          name: `${typeInitial}_${city}_${dateStr}_${hour}.mp3`,
-          path: path,
-          url: encodeURI(path.replace(/\\/g, '/')),
-          size: '140 MB',
-          type: 'audio/mpeg',
-          lastModified: format(date, 'yyyy-MM-dd')
-        };
-        
-        setAudioFiles([mockFile]);
-        
-        loadAudioFile(mockFile);
 
-      } else {
-        const mockFiles: AudioFile[] = Array.from({ length: 24 }, (_, i) => {
-          const hourStr = i.toString().padStart(2, '0');
-          const basePath = path.includes('\\\\') 
-            ? path.substring(0, path.lastIndexOf('\\')) 
-            : path.substring(0, path.lastIndexOf('/'));
-          const filePath = `${basePath}\\${hourStr}.mp3`;
-          
-          return {
-            name: `${typeInitial}_${city}_${format(date, 'yyyy-MM-dd')}_${hourStr}.mp3`,
-            path: `${basePath}\\${hourStr}.mp3`,
-            url: encodeURI(filePath.replace(/\\/g, '/')),
-            size: '140 MB',
-            type: 'audio/mpeg',
-            lastModified: format(date, 'yyyy-MM-dd')
-          };
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const separator = path.includes('\\') ? '\\' : '/';
+    const folderPath = hour ? path.substring(0, path.lastIndexOf(separator)) : path;
+
+    let files: AudioFile[];
+    try {
+      const recordings = await fetchRecordings(city, dateStr);
+
+      files = recordings.map((recording) => toAudioFile(recording, typeInitial, folderPath, separator));
+    } catch (error) {
+      console.error("Error listing recordings:", error);
+      toast.error(error instanceof RecordingServiceError ? error.message : "Impossible de lister les enregistrements");
+      setAudioFiles([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setAudioFiles(files);
+    setIsLoading(false);
+
+    if (hour) {
+      const file = files.find((f) => f.recording?.hour === hour);
+      if (file) {
+        // Go through the ref so that listing files does not depend on the current audio source
+        loadAudioFileRef.current?.(file).then(() => {
+          if (position > 0 && audioRef.current) {
+            audioRef.current.currentTime = position;
+            setCurrentTime(position);
+          }
+        }).catch(() => {
+          // Already reported by loadAudioFile
         });
-        
-        setAudioFiles(mockFiles);
+      } else {
+        toast.error(`Aucun enregistrement pour ${city} le ${dateStr} à ${hour}:00`);
       }
-      
-      setIsLoading(false);
-    }, 1500);
-  }, []);
+    }
+  }, [audioRef, setCurrentTime]);
+
+  // Recording of the same channel that follows a file, switching the list
+  // to the next day when crossing midnight. Null when there is none.
+  const resolveNextRecording = useCallback(async (file: AudioFile): Promise<AudioFile | null> => {
+    const recording = file.recording;
+    if (!recording) return null;
+
+    const next = toDayTime(recording.date, (parseInt(recording.hour, 10) + 1) * SECONDS_PER_HOUR);
+    const nextHour = (next.seconds / SECONDS_PER_HOUR).toString().padStart(2, '0');
+
+    if (next.date === recording.date) {
+      return audioFiles.find((f) => f.recording?.date === next.date && f.recording.hour === nextHour) ?? null;
+    }
+
+    try {
+      const separator = file.path.includes('\\') ? '\\' : '/';
+      const dayFolder = file.path.substring(0, file.path.lastIndexOf(separator));
+      const folderPath = `${dayFolder.substring(0, dayFolder.lastIndexOf(separator))}${separator}${next.date}`;
+
+      const recordings = await fetchRecordings(recording.canal, next.date);
+      const files = recordings.map((info) => toAudioFile(info, recording.typeInitial, folderPath, separator));
+      setAudioFiles(files);
+      return files.find((f) => f.recording?.hour === nextHour) ?? null;
+    } catch (error) {
+      console.error("Error listing next day recordings:", error);
+      return null;
+    }
+  }, [audioFiles]);
 
   useEffect(() => {
     if (!settings) return;
     
+    const audioFolderPath = settings.audioFolderPath || '\\\\server\\audioLogs';
+
+    // Open the recording given by a shared link
+    if (initialRecording) {
+      const { canal, date, hour, typeInitial, position } = initialRecording;
+      loadFilesFromUNC(
+        `${audioFolderPath}\\${canal}\\${date}\\${hour}.mp3`,
+        canal,
+        parseISO(date),
+        hour,
+        typeInitial,
+        position
+      );
+      return;
+    }
+    
     const today = new Date();
     
     // Load the previous hour's file by default
@@ -192,8 +254,6 @@ export const useAudioFiles = (
       citiesConfig?.[0]?.folderName ??
       'canal1';
     
-    const audioFolderPath = settings.audioFolderPath || '\\\\server\\audioLogs';
-    
     // Default type (departs)
     const defaultType = 'Départs';
     const typeInitial = getTypeInitial(defaultType);
@@ -205,13 +265,14 @@ export const useAudioFiles = (
       prevHourString,
       typeInitial
     );
-  }, [settings, loadFilesFromUNC]);
+  }, [settings, loadFilesFromUNC, initialRecording]);
 
   return {
     audioFiles,
     isLoading,
     currentAudioFile,
     loadAudioFile,
-    loadFilesFromUNC
+    loadFilesFromUNC,
+    resolveNextRecording
   };
 };
@@ -1,22 +1,51 @@
 
-import { useCallback } from 'react';
-
-export const useAudioFormatting = () => {
-  const formatTime = useCallback((time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }, []);
-
-  const formatTimeDetailed = useCallback((time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    const milliseconds = Math.floor((time % 1) * 1000);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-  }, []);
+import { useCallback, useEffect, useState } from 'react';
+import { formatOffset, formatWallClock } from '@/utils/timeFormat';
+import { parseTimeString } from '@/utils/timeParser';
+
+// 'wallclock' shows broadcast time for logger recordings, 'relative' the offset in the file
+export type TimeDisplayMode = 'wallclock' | 'relative';
+
+const TIME_DISPLAY_MODE_KEY = 'timeDisplayMode';
+
+// fileStart: time of day at which the loaded file starts, in seconds from midnight, when known
+export const useAudioFormatting = (fileStart: number | null = null) => {
+  const [timeDisplayMode, setTimeDisplayMode] = useState<TimeDisplayMode>(() =>
+    localStorage.getItem(TIME_DISPLAY_MODE_KEY) === 'relative' ? 'relative' : 'wallclock'
+  );
+
+  useEffect(() => {
+    localStorage.setItem(TIME_DISPLAY_MODE_KEY, timeDisplayMode);
+  }, [timeDisplayMode]);
+
+  // Start of the file in the displayed time, null when offsets are shown
+  const wallClockStart = timeDisplayMode === 'wallclock' ? fileStart : null;
+
+  const formatTime = useCallback((time: number) =>
+    wallClockStart !== null ? formatWallClock(wallClockStart + time) : formatOffset(time),
+  [wallClockStart]);
+
+  const formatTimeDetailed = useCallback((time: number) =>
+    wallClockStart !== null ? formatWallClock(wallClockStart + time, true) : formatOffset(time, true),
+  [wallClockStart]);
+
+  // Lengths are always shown as durations
+  const formatDuration = useCallback((time: number, withMillis = false) =>
+    formatOffset(time, withMillis),
+  []);
+
+  // Typed times, read in the displayed form unless written explicitly as an offset or time of day
+  const parseTime = useCallback((input: string) =>
+    parseTimeString(input, { fileStart, preferWallClock: wallClockStart !== null }),
+  [fileStart, wallClockStart]);
 
   return {
     formatTime,
-    formatTimeDetailed
+    formatTimeDetailed,
+    formatDuration,
+    parseTime,
+    timeDisplayMode,
+    setTimeDisplayMode,
+    wallClockStart
   };
 };
@@ -1,7 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
 import { useAudioContext } from './useAudioContext';
-import { useAudioBufferDecoder } from './useAudioBufferDecoder';
 import { useAudioEventHandlers } from './useAudioEventHandlers';
 import { useAudioCleanup } from './useAudioCleanup';
 import { useAudioMarkers } from './useAudioMarkers';
@@ -23,7 +22,6 @@ export const useAudioPlayback = () => {
   const { audioContextRef, getAudioContext } = useAudioContext();
   const { formatTime, formatTimeDetailed } = useAudioFormatting();
   const { markers, addMarker, removeMarker, initializeMarkers, setMarkers } = useAudioMarkers(formatTime);
-  const { fetchAndDecodeAudio } = useAudioBufferDecoder(getAudioContext);
   
   const { cleanup } = useAudioCleanup(animationRef, sourceNodeRef);
   
@@ -54,7 +52,6 @@ export const useAudioPlayback = () => {
     cleanup,
     animationRef,
     initializeMarkers,
-    fetchAndDecodeAudio,
     setAudioBuffer
   });
 
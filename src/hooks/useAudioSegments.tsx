@@ -0,0 +1,258 @@
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { AudioFile, AudioMarker, AudioSegment, SegmentOrigin } from './useAudioTypes';
+import { useSegmentHistory } from './useSegmentHistory';
+import { getRecordingOffset, toDayTime } from '@/utils/recordingTime';
+import { formatWallClock } from '@/utils/timeFormat';
+
+// Colours given in turn to new segments
+const SEGMENT_COLORS = ['#3b82f6', '#f97316', '#a855f7', '#06b6d4', '#d946ef', '#eab308', '#22c55e', '#ef4444'];
+
+export const useAudioSegments = ({
+  segments,
+  setSegments,
+  selectedSegmentId,
+  setSelectedSegmentId,
+  currentAudioFile,
+  audioRef,
+  currentTime,
+  duration,
+  playRange,
+  formatTime,
+  formatTimeDetailed
+}) => {
+  const recording = (currentAudioFile as AudioFile | null)?.recording;
+
+  // Undo/redo of every change below
+  const { recordChange, undo, redo, canUndo, canRedo, clearHistory } = useSegmentHistory({
+    segments,
+    setSegments,
+    selectedSegmentId,
+    setSelectedSegmentId
+  });
+  const canalRef = useRef<string | undefined>(undefined);
+
+  // Keep the segments of the same channel when moving to another hour, drop the others
+  // along with the history, which could bring them back
+  useEffect(() => {
+    const canal = (currentAudioFile as AudioFile | null)?.recording?.canal;
+    setSegments((previous: AudioSegment[]) => previous.filter((segment) =>
+      segment.origin && segment.origin.canal === canal
+    ));
+    if (!canal || canal !== canalRef.current) clearHistory();
+    canalRef.current = canal;
+  }, [currentAudioFile, setSegments, clearHistory]);
+
+  useEffect(() => {
+    if (selectedSegmentId && !segments.some((segment: AudioSegment) => segment.id === selectedSegmentId)) {
+      setSelectedSegmentId(null);
+    }
+  }, [segments, selectedSegmentId, setSelectedSegmentId]);
+
+  // Seconds between the segment's reference and the start of the loaded file
+  const getFileOffset = useCallback((segment: AudioSegment) =>
+    segment.origin && recording ? getRecordingOffset(recording, segment.origin.date) : 0,
+  [recording]);
+
+  const selectedSegment: AudioSegment | null = useMemo(() =>
+    segments.find((segment: AudioSegment) => segment.id === selectedSegmentId) ?? null,
+  [segments, selectedSegmentId]);
+
+  // Segments in the time of the loaded file, for drawing on the timeline.
+  // Bounds lying in other hours fall outside [0, duration].
+  const fileSegments: AudioSegment[] = useMemo(() =>
+    segments.map((segment: AudioSegment) => {
+      const offset = getFileOffset(segment);
+      return { ...segment, in: segment.in - offset, out: segment.out - offset };
+    }),
+  [segments, getFileOffset]);
+
+  // The IN/OUT pair of the selected segment, as edited by the marker controls and the timeline
+  const markers: AudioMarker[] = useMemo(() => {
+    const segment = fileSegments.find((fileSegment) => fileSegment.id === selectedSegmentId);
+    if (!segment) return [];
+    return [
+      { id: `${segment.id}-start`, position: segment.in, type: 'start' },
+      { id: `${segment.id}-end`, position: segment.out, type: 'end' }
+    ];
+  }, [fileSegments, selectedSegmentId]);
+
+  // Create a segment from a first IN or OUT point, the other bound defaulting to the file start or end.
+  // Segments of logger recordings are anchored to their channel and day.
+  const createSegment = useCallback((type: 'start' | 'end', position: number) => {
+    const id = `segment-${Date.now()}`;
+    const offset = recording ? getRecordingOffset(recording, recording.date) : 0;
+
+    recordChange('création du segment');
+
+    setSegments((previous: AudioSegment[]) => [
+      ...previous,
+      {
+        id,
+        in: offset + (type === 'start' ? position : 0),
+        out: offset + (type === 'end' ? position : duration),
+        label: `Segment ${previous.length + 1}`,
+        color: SEGMENT_COLORS[previous.length % SEGMENT_COLORS.length],
+        notes: '',
+        origin: recording
+          ? { canal: recording.canal, date: recording.date, typeInitial: recording.typeInitial }
+          : undefined
+      }
+    ]);
+    setSelectedSegmentId(id);
+  }, [recording, duration, recordChange, setSegments, setSelectedSegmentId]);
+
+  // Add a segment known by its bounds, e.g. from a shared link, and select it
+  const importSegment = useCallback((bounds: Pick<AudioSegment, 'in' | 'out' | 'label'>, origin?: SegmentOrigin) => {
+    const id = `segment-${Date.now()}`;
+
+    recordChange('import du segment');
+    setSegments((previous: AudioSegment[]) => [
+      ...previous,
+      {
+        ...bounds,
+        id,
+        label: bounds.label || `Segment ${previous.length + 1}`,
+        color: SEGMENT_COLORS[previous.length % SEGMENT_COLORS.length],
+        notes: '',
+        origin
+      }
+    ]);
+    setSelectedSegmentId(id);
+  }, [recordChange, setSegments, setSelectedSegmentId]);
+
+  // Set the IN or OUT point of the selected segment at the current time
+  const addMarker = useCallback((type: 'start' | 'end') => {
+    // Read from the element: the state lags by up to a timeupdate interval, a second at 4x
+    const time: number = (audioRef as React.MutableRefObject<HTMLAudioElement | null>).current?.currentTime ?? currentTime;
+
+    if (!selectedSegment) {
+      createSegment(type, time);
+    } else {
+      const bound = type === 'start' ? 'in' : 'out';
+      const position = time + getFileOffset(selectedSegment);
+      recordChange(`marqueur ${type === 'start' ? 'début' : 'fin'}`);
+      setSegments((previous: AudioSegment[]) => previous.map((segment) =>
+        segment.id === selectedSegment.id ? { ...segment, [bound]: position } : segment
+      ));
+    }
+
+    toast.success(`Marqueur ${type === 'start' ? 'début' : 'fin'} défini à ${formatTime(time)}`);
+  }, [audioRef, selectedSegment, currentTime, createSegment, getFileOffset, recordChange, setSegments, formatTime]);
+
+  // Move a bound of the selected segment (drag, nudge or typed time).
+  // IN cannot go past OUT and vice versa.
+  const moveMarker = useCallback((type: 'start' | 'end', position: number) => {
+    const clamped = Math.max(0, duration > 0 ? Math.min(duration, position) : position);
+
+    if (!selectedSegment) {
+      createSegment(type, clamped);
+      return;
+    }
+
+    const absolute = clamped + getFileOffset(selectedSegment);
+    recordChange(`déplacement du marqueur ${type === 'start' ? 'début' : 'fin'}`, `move:${selectedSegment.id}:${type}`);
+    setSegments((previous: AudioSegment[]) => previous.map((segment) => {
+      if (segment.id !== selectedSegment.id) return segment;
+      return type === 'start'
+        ? { ...segment, in: Math.min(absolute, segment.out) }
+        : { ...segment, out: Math.max(absolute, segment.in) };
+    }));
+  }, [duration, selectedSegment, createSegment, getFileOffset, recordChange, setSegments]);
+
+  const selectSegment = useCallback((id: string | null) => {
+    setSelectedSegmentId(id);
+  }, [setSelectedSegmentId]);
+
+  // Rename, recolour or annotate a segment
+  const updateSegment = useCallback((id: string, changes: Partial<Omit<AudioSegment, 'id'>>) => {
+    const fields = Object.keys(changes);
+    const description = fields.includes('label') ? 'renommage du segment'
+      : fields.includes('notes') ? 'notes du segment'
+      : fields.includes('color') ? 'couleur du segment'
+      : 'modification du segment';
+    recordChange(description, `update:${id}:${fields.join(',')}`);
+    setSegments((previous: AudioSegment[]) => previous.map((segment) =>
+      segment.id === id ? { ...segment, ...changes } : segment
+    ));
+  }, [recordChange, setSegments]);
+
+  const deleteSegment = useCallback((id: string) => {
+    recordChange('suppression du segment');
+    setSegments((previous: AudioSegment[]) => previous.filter((segment) => segment.id !== id));
+    if (id === selectedSegmentId) setSelectedSegmentId(null);
+  }, [selectedSegmentId, recordChange, setSegments, setSelectedSegmentId]);
+
+  const resetSegments = useCallback(() => {
+    recordChange('effacement des marqueurs');
+    setSegments([]);
+    setSelectedSegmentId(null);
+    toast.success('Marqueurs effacés', { action: { label: 'Annuler', onClick: undo } });
+  }, [recordChange, setSegments, setSelectedSegmentId, undo]);
+
+  // Bring back segments saved for the recording, keeping those already there.
+  // Returns whether any was missing.
+  const restoreSegments = useCallback((saved: AudioSegment[], savedSelectedId: string | null) => {
+    if (saved.every((segment) => segments.some((current: AudioSegment) => current.id === segment.id))) return false;
+
+    recordChange('restauration du travail enregistré');
+    setSegments((previous: AudioSegment[]) => [
+      ...previous,
+      ...saved.filter((segment) => !previous.some((current) => current.id === segment.id))
+    ]);
+    if (!selectedSegmentId && savedSelectedId) setSelectedSegmentId(savedSelectedId);
+    return true;
+  }, [segments, selectedSegmentId, recordChange, setSegments, setSelectedSegmentId]);
+
+  // Play the part of a segment that lies in the loaded file
+  const playSegment = useCallback((id: string) => {
+    const segment = fileSegments.find((fileSegment) => fileSegment.id === id);
+    if (!segment) return;
+
+    const start = Math.max(0, segment.in);
+    const end = Math.min(duration, segment.out);
+    if (start >= end) {
+      toast.info('Ce segment se trouve dans un autre fichier');
+      return;
+    }
+
+    playRange(start, end);
+  }, [fileSegments, duration, playRange]);
+
+  // Marker times in the loaded file; bounds in another hour are shown with their date and time of day
+  const formatMarkerPosition = useCallback((position: number) => {
+    if (position >= 0 && position <= duration) return formatTimeDetailed(position);
+    if (!recording) return formatTimeDetailed(Math.max(0, position));
+
+    const { date, seconds } = toDayTime(recording.date, getRecordingOffset(recording, recording.date) + position);
+    return `${date !== recording.date ? `${date} ` : ''}${formatWallClock(seconds, true)}`;
+  }, [duration, recording, formatTimeDetailed]);
+
+  // Segment bounds as the markers show them, in the time display mode; logger segments
+  // listed over a local file keep their time of day
+  const formatSegmentBound = useCallback((segment: AudioSegment, position: number) =>
+    segment.origin && !recording ? formatWallClock(position, true) : formatMarkerPosition(position - getFileOffset(segment)),
+  [recording, getFileOffset, formatMarkerPosition]);
+
+  return {
+    markers,
+    selectedSegment,
+    fileSegments,
+    addMarker,
+    moveMarker,
+    selectSegment,
+    updateSegment,
+    deleteSegment,
+    resetSegments,
+    importSegment,
+    restoreSegments,
+    playSegment,
+    formatMarkerPosition,
+    formatSegmentBound,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  };
+};
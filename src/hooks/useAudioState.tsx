@@ -1,6 +1,6 @@
 
 import { useState, useRef } from 'react';
-import { AudioMarker, AudioFile } from './useAudioTypes';
+import { AudioSegment } from './useAudioTypes';
 
 export const useAudioState = () => {
   // Initialize state
@@ -10,7 +10,8 @@ export const useAudioState = () => {
   const [volume, setVolume] = useState(0.8);
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [markers, setMarkers] = useState<AudioMarker[]>([]);
+  const [segments, setSegments] = useState<AudioSegment[]>([]);
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
   const [isBuffering, setIsBuffering] = useState(false);
   const [showMarkerControls, setShowMarkerControls] = useState(false);
   
@@ -32,8 +33,10 @@ export const useAudioState = () => {
     setAudioSrc,
     audioBuffer,
     setAudioBuffer,
-    markers,
-    setMarkers,
+    segments,
+    setSegments,
+    selectedSegmentId,
+    setSelectedSegmentId,
     isBuffering,
     setIsBuffering,
     showMarkerControls,
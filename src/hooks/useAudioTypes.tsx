@@ -1,10 +1,21 @@
 
+import { RecordingCodecInfo } from '@/utils/recordingService';
+
 export interface AudioMarker {
   id: string;
   position: number; // in seconds
   type: 'start' | 'end';
 }
 
+// Where a server recording lives in the logger tree (<root>/<canal>/<date>/<hour>.mp3)
+export interface RecordingSource {
+  canal: string;
+  date: string; // yyyy-MM-dd
+  hour: string; // HH
+  typeInitial: string;
+  codec?: RecordingCodecInfo | null;
+}
+
 export interface AudioFile {
   name: string;
   url: string;
@@ -12,4 +23,27 @@ export interface AudioFile {
   size: string;
   type: string;
   lastModified: string;
+  duration?: number; // in seconds, when known before loading
+  recording?: RecordingSource;
+  contentHash?: string; // of a local file, identifies it across loads (see utils/editingSessions.ts)
+}
+
+// Channel and day a segment of the logger is anchored to
+export interface SegmentOrigin {
+  canal: string;
+  date: string; // yyyy-MM-dd
+  typeInitial: string;
+}
+
+// A named excerpt of the recording, delimited by its IN and OUT points.
+// With an origin, IN and OUT are seconds from midnight of origin.date and may span
+// several hourly files; otherwise they are seconds in the loaded file.
+export interface AudioSegment {
+  id: string;
+  in: number; // in seconds
+  out: number; // in seconds
+  label: string;
+  color: string;
+  notes: string;
+  origin?: SegmentOrigin;
 }
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AudioMarker } from './useAudioTypes';
+import { PlaybackRange } from './useAudioControls';
+
+/**
+ * Ways of listening to the selection before exporting it:
+ * - selection: from IN to OUT (or the end of the file)
+ * - loop: the selection over and over
+ * - aroundIn: a few seconds before and after IN
+ * - toOut: the last seconds up to OUT
+ * - acrossEdit: up to IN, then from OUT on, as if the selection were cut out
+ */
+export type AuditionMode = 'selection' | 'loop' | 'aroundIn' | 'toOut' | 'acrossEdit';
+
+// Roll durations offered, in seconds
+export const AUDITION_ROLLS = [1, 2, 3, 5, 10];
+
+export const AUDITION_LABELS: Record<AuditionMode, string> = {
+  selection: 'Jouer la sélection',
+  loop: 'Boucler la sélection',
+  aroundIn: 'Autour du marqueur début',
+  toOut: 'Jusqu’au marqueur fin',
+  acrossEdit: 'À travers la coupe'
+};
+
+const AUDITION_ROLL_KEY = 'auditionRoll';
+const DEFAULT_AUDITION_ROLL = 3;
+
+export const useAudition = ({
+  markers,
+  duration,
+  playRanges
+}: {
+  markers: AudioMarker[];
+  duration: number;
+  playRanges: (ranges: PlaybackRange[], loop?: boolean) => void;
+}) => {
+  // Seconds heard before and after the markers
+  const [auditionRoll, setAuditionRoll] = useState(() => {
+    const saved = parseFloat(localStorage.getItem(AUDITION_ROLL_KEY) ?? '');
+    return saved > 0 ? saved : DEFAULT_AUDITION_ROLL;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(AUDITION_ROLL_KEY, String(auditionRoll));
+  }, [auditionRoll]);
+
+  const audition = useCallback((mode: AuditionMode) => {
+    const inPoint = markers.find((marker) => marker.type === 'start')?.position ?? null;
+    const outPoint = markers.find((marker) => marker.type === 'end')?.position ?? null;
+    const clamp = (time: number) => Math.min(duration, Math.max(0, time));
+
+    let ranges: PlaybackRange[] = [];
+    switch (mode) {
+      case 'selection':
+      case 'loop':
+        if (inPoint !== null) ranges = [{ start: inPoint, end: outPoint ?? duration }];
+        break;
+      case 'aroundIn':
+        if (inPoint !== null) ranges = [{ start: inPoint - auditionRoll, end: inPoint + auditionRoll }];
+        break;
+      case 'toOut':
+        if (outPoint !== null) ranges = [{ start: Math.max(inPoint ?? 0, outPoint - auditionRoll), end: outPoint }];
+        break;
+      case 'acrossEdit':
+        if (inPoint !== null && outPoint !== null) {
+          ranges = [
+            { start: inPoint - auditionRoll, end: inPoint },
+            { start: outPoint, end: outPoint + auditionRoll }
+          ];
+        }
+        break;
+    }
+
+    // Markers in another hour are heard only for the part in the loaded file
+    ranges = ranges
+      .map((range) => ({ start: clamp(range.start), end: clamp(range.end) }))
+      .filter((range) => range.end > range.start);
+    if (ranges.length === 0) {
+      toast.info('Placez les marqueurs nécessaires dans ce fichier pour écouter');
+      return;
+    }
+
+    playRanges(ranges, mode === 'loop');
+  }, [markers, duration, auditionRoll, playRanges]);
+
+  return {
+    audition,
+    auditionRoll,
+    setAuditionRoll
+  };
+};
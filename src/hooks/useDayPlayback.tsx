@@ -0,0 +1,165 @@
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { AudioFile } from './useAudioTypes';
+import { getRecordingUrl } from '@/utils/recordingService';
+import { SECONDS_PER_HOUR, getRecordingOffset, toDayTime } from '@/utils/recordingTime';
+
+// How long before the end of an hour the next one starts downloading, in seconds
+const PREFETCH_LEAD = 120;
+
+interface PrefetchedHour {
+  url: string; // of the recording
+  blobUrl: string | null; // once downloaded
+  isTaken: boolean; // handed to the player, which revokes it when it loads another file
+}
+
+/**
+ * Plays a channel's day as one continuous recording: rolls over to the next hourly file
+ * when one ends, downloads it shortly before so that playback goes on without waiting
+ * for the network, and seeks anywhere in the 24 hours.
+ */
+export const useDayPlayback = ({
+  audioRef,
+  audioFiles,
+  currentAudioFile,
+  currentTime,
+  duration,
+  loadAudioFile,
+  resolveNextRecording,
+  seek
+}: {
+  audioRef: React.MutableRefObject<HTMLAudioElement | null>;
+  audioFiles: AudioFile[];
+  currentAudioFile: AudioFile | null;
+  currentTime: number;
+  duration: number;
+  loadAudioFile: (file: AudioFile, mediaUrl?: string) => Promise<void>;
+  resolveNextRecording: (file: AudioFile) => Promise<AudioFile | null>;
+  seek: (time: number) => void;
+}) => {
+  const [continuousPlayback, setContinuousPlayback] = useState(true);
+  const recording = currentAudioFile?.recording;
+
+  // Position in the day of the loaded recording, in seconds from midnight
+  const dayPosition = recording ? getRecordingOffset(recording, recording.date) + currentTime : null;
+
+  const availableHours = useMemo(() => {
+    if (!recording) return [];
+    const hours = new Set<string>();
+    audioFiles.forEach((file) => {
+      if (file.recording?.canal === recording.canal && file.recording.date === recording.date) {
+        hours.add(file.recording.hour);
+      }
+    });
+    return Array.from(hours).sort();
+  }, [audioFiles, recording]);
+
+  const loadAndResume = useCallback(async (file: AudioFile, position: number, resume: boolean, mediaUrl?: string) => {
+    await loadAudioFile(file, mediaUrl);
+    if (position > 0) seek(position);
+    if (resume) {
+      audioRef.current?.play().catch((error: unknown) => console.error('Error resuming playback:', error));
+    }
+  }, [audioRef, loadAudioFile, seek]);
+
+  // Seek to a time of the loaded day, loading the matching hour if needed
+  const seekDay = useCallback((seconds: number) => {
+    if (!recording) return;
+
+    const hour = Math.min(23, Math.max(0, Math.floor(seconds / SECONDS_PER_HOUR)));
+    const hourString = hour.toString().padStart(2, '0');
+    const position = Math.max(0, seconds - hour * SECONDS_PER_HOUR);
+
+    if (hourString === recording.hour) {
+      seek(Math.min(position, duration));
+      return;
+    }
+
+    const file = audioFiles.find((f) =>
+      f.recording?.canal === recording.canal && f.recording.date === recording.date && f.recording.hour === hourString
+    );
+    if (!file) {
+      toast.error(`Aucun enregistrement à ${hourString}h le ${recording.date}`);
+      return;
+    }
+
+    const wasPlaying = !!audioRef.current && !audioRef.current.paused;
+    loadAndResume(file, position, wasPlaying).catch(() => {
+      // Already reported by loadAudioFile
+    });
+  }, [recording, audioFiles, audioRef, duration, seek, loadAndResume]);
+
+  // URL of the hour after the loaded one, possibly on the next day
+  const nextUrl = useMemo(() => {
+    if (!recording) return null;
+    const next = toDayTime(recording.date, (parseInt(recording.hour, 10) + 1) * SECONDS_PER_HOUR);
+    return getRecordingUrl(recording.canal, next.date, (next.seconds / SECONDS_PER_HOUR).toString().padStart(2, '0'));
+  }, [recording]);
+
+  const shouldPrefetch = continuousPlayback && nextUrl !== null && duration > 0 && duration - currentTime <= PREFETCH_LEAD;
+  const prefetchRef = useRef<PrefetchedHour | null>(null);
+
+  // Download the next hour into a blob that the rollover plays from
+  useEffect(() => {
+    if (!shouldPrefetch || !nextUrl) return;
+
+    const controller = new AbortController();
+    const prefetch: PrefetchedHour = { url: nextUrl, blobUrl: null, isTaken: false };
+    prefetchRef.current = prefetch;
+
+    fetch(nextUrl, { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+      .then((blob) => {
+        if (!controller.signal.aborted) prefetch.blobUrl = URL.createObjectURL(blob);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Failed to prefetch the next hour:', error);
+      });
+
+    return () => {
+      controller.abort();
+      if (prefetchRef.current === prefetch) prefetchRef.current = null;
+      if (prefetch.blobUrl && !prefetch.isTaken) URL.revokeObjectURL(prefetch.blobUrl);
+    };
+  }, [shouldPrefetch, nextUrl]);
+
+  // Blob URL of a file once fully prefetched, which the player then owns; undefined to stream it
+  const takePrefetchedUrl = useCallback((file: AudioFile) => {
+    const prefetch = prefetchRef.current;
+    if (!prefetch?.blobUrl || !file.recording) return undefined;
+    if (prefetch.url !== getRecordingUrl(file.recording.canal, file.recording.date, file.recording.hour)) return undefined;
+
+    prefetch.isTaken = true;
+    return prefetch.blobUrl;
+  }, []);
+
+  // Called when a file ends: returns true when playback continues with the next hour
+  const handleEnded = useCallback(() => {
+    if (!continuousPlayback || !currentAudioFile?.recording) return false;
+
+    resolveNextRecording(currentAudioFile).then((next) => {
+      if (!next) {
+        toast.info('Fin des enregistrements disponibles');
+        return;
+      }
+
+      return loadAndResume(next, 0, true, takePrefetchedUrl(next));
+    }).catch((error) => console.error('Error rolling over to the next hour:', error));
+
+    return true;
+  }, [continuousPlayback, currentAudioFile, resolveNextRecording, loadAndResume, takePrefetchedUrl]);
+
+  return {
+    continuousPlayback,
+    setContinuousPlayback,
+    dayDate: recording?.date ?? null,
+    dayPosition,
+    availableHours,
+    seekDay,
+    handleEnded
+  };
+};
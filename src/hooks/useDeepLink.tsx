@@ -0,0 +1,82 @@
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { AudioFile, AudioSegment } from './useAudioTypes';
+import { DeepLink, buildDeepLinkParams } from '@/utils/deepLink';
+import { getRecordingOffset } from '@/utils/recordingTime';
+
+/**
+ * Keeps the URL pointing to the loaded recording, the playhead and the selected segment,
+ * restores the segment of the link the page was opened with, and copies links to share.
+ * The playhead is written to the URL while paused only, copied links always have it.
+ */
+export const useDeepLink = ({
+  initialLink,
+  currentAudioFile,
+  currentTime,
+  isPlaying,
+  selectedSegment,
+  importSegment
+}) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const restoredRef = useRef(false);
+  const recording = (currentAudioFile as AudioFile | null)?.recording;
+
+  useEffect(() => {
+    const link = initialLink as DeepLink | null;
+    if (restoredRef.current || !link?.segment) return;
+    restoredRef.current = true;
+    importSegment(link.segment, { canal: link.canal, date: link.date, typeInitial: link.typeInitial });
+  }, [initialLink, importSegment]);
+
+  const getLinkParams = useCallback((position: number) => {
+    if (!recording) return null;
+
+    // Segment bounds as seconds from midnight of the recording's day
+    const segment = selectedSegment as AudioSegment | null;
+    const shift = segment?.origin ? getRecordingOffset({ date: recording.date, hour: '00' }, segment.origin.date) : 0;
+
+    return buildDeepLinkParams({
+      typeInitial: recording.typeInitial,
+      canal: recording.canal,
+      date: recording.date,
+      hour: recording.hour,
+      position,
+      segment: segment?.origin ? { in: segment.in - shift, out: segment.out - shift, label: segment.label } : null
+    });
+  }, [recording, selectedSegment]);
+
+  const urlTime = isPlaying ? null : currentTime;
+
+  useEffect(() => {
+    if (!currentAudioFile || urlTime === null) return;
+
+    // Local files cannot be shared, their URL is left empty
+    const params = getLinkParams(urlTime) ?? new URLSearchParams();
+    if (params.toString() !== searchParams.toString()) {
+      setSearchParams(params, { replace: true });
+    }
+  }, [currentAudioFile, urlTime, getLinkParams, searchParams, setSearchParams]);
+
+  const copyLink = useCallback(async () => {
+    const params = getLinkParams(currentTime);
+    if (!params) {
+      toast.error('Seuls les enregistrements du serveur peuvent être partagés');
+      return;
+    }
+
+    const url = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Lien copié dans le presse-papiers', { description: url });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('Impossible de copier le lien', { description: url });
+    }
+  }, [getLinkParams, currentTime]);
+
+  return {
+    copyLink
+  };
+};
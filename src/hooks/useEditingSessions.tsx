@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { AudioFile, AudioSegment } from './useAudioTypes';
+import { deleteSession, EditingSession, getSession, listSessions, saveSession } from '@/utils/editingSessions';
+
+// Delay after the last change before the session is written
+const SAVE_DELAY = 1000;
+
+// The playhead is saved again whenever it moves by this many seconds
+const POSITION_SAVE_STEP = 5;
+
+// Key of the session of a file, or null when it cannot be identified
+export const getSessionKey = (file: AudioFile | null) => {
+  if (file?.recording) return `recording:${file.recording.canal}/${file.recording.date}/${file.recording.hour}`;
+  if (file?.contentHash) return `local:${file.contentHash}`;
+  return null;
+};
+
+const getSessionTitle = (file: AudioFile) =>
+  file.recording ? `${file.recording.canal} · ${file.recording.date} · ${file.recording.hour}h` : file.name;
+
+/**
+ * Saves the segments, selection and playhead of the loaded recording as they change, and
+ * restores them when the recording is opened again. Only recordings with segments are listed
+ * as work in progress; the others keep their playhead.
+ */
+export const useEditingSessions = ({
+  currentAudioFile,
+  segments,
+  fileSegments,
+  selectedSegmentId,
+  restoreSegments,
+  currentTime,
+  duration,
+  isLoading,
+  isPlaying,
+  audioRef,
+  seek,
+  onRestored
+}: {
+  currentAudioFile: AudioFile | null;
+  segments: AudioSegment[];
+  fileSegments: AudioSegment[];
+  selectedSegmentId: string | null;
+  restoreSegments: (segments: AudioSegment[], selectedSegmentId: string | null) => boolean;
+  currentTime: number;
+  duration: number;
+  isLoading: boolean;
+  isPlaying: boolean;
+  audioRef: React.MutableRefObject<HTMLAudioElement | null>;
+  seek: (time: number) => void;
+  onRestored: () => void;
+}) => {
+  const [savedSessions, setSavedSessions] = useState<EditingSession[]>([]);
+  const sessionKey = getSessionKey(currentAudioFile);
+  const isReady = sessionKey !== null && !isLoading && duration > 0;
+
+  // Saving starts once the saved session, if any, has been restored
+  const restoredKeyRef = useRef<string | null>(null);
+  // Write of the last changes, until it is done
+  const pendingWriteRef = useRef<(() => void) | null>(null);
+  const keyRef = useRef(sessionKey);
+  keyRef.current = sessionKey;
+
+  // Restoring reads the latest state without running again when it changes
+  const latestRef = useRef({ restoreSegments, seek, onRestored, isPlaying, duration });
+  latestRef.current = { restoreSegments, seek, onRestored, isPlaying, duration };
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSavedSessions)
+      .catch((error) => console.error('Failed to list editing sessions:', error));
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  useEffect(() => {
+    restoredKeyRef.current = null;
+    if (!isReady) return;
+
+    let cancelled = false;
+    getSession(sessionKey)
+      .then((session) => {
+        if (cancelled) return;
+        restoredKeyRef.current = sessionKey;
+        if (!session) return;
+
+        const { restoreSegments, seek, onRestored, isPlaying, duration } = latestRef.current;
+        const restored = restoreSegments(session.segments, session.selectedSegmentId);
+
+        // Unless playback already started, or a position was asked for
+        const audio = audioRef.current;
+        if (!isPlaying && audio && audio.currentTime < 0.5 && session.position > 0) {
+          seek(Math.min(session.position, duration));
+        }
+        if (restored) {
+          onRestored();
+          toast.info('Travail en cours restauré pour cet enregistrement');
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to restore the editing session:', error);
+        if (!cancelled) restoredKeyRef.current = sessionKey;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionKey, isReady, audioRef]);
+
+  // Read when saving, without saving at each change of their own
+  const fileRef = useRef({ currentAudioFile, duration, currentTime });
+  fileRef.current = { currentAudioFile, duration, currentTime };
+
+  // The playhead is saved by steps rather than at every time update
+  const positionStep = Math.floor(currentTime / POSITION_SAVE_STEP);
+  useEffect(() => {
+    const { currentAudioFile, duration, currentTime } = fileRef.current;
+    if (!sessionKey || !currentAudioFile || restoredKeyRef.current !== sessionKey) return;
+
+    // Segments lying at least partly in the recording
+    const session: EditingSession = {
+      key: sessionKey,
+      title: getSessionTitle(currentAudioFile),
+      recording: currentAudioFile.recording
+        ? {
+            canal: currentAudioFile.recording.canal,
+            date: currentAudioFile.recording.date,
+            hour: currentAudioFile.recording.hour,
+            typeInitial: currentAudioFile.recording.typeInitial
+          }
+        : null,
+      segments: segments.filter((_, index) => fileSegments[index]?.out >= 0 && fileSegments[index]?.in <= duration),
+      selectedSegmentId,
+      position: audioRef.current?.currentTime ?? currentTime,
+      updatedAt: Date.now()
+    };
+
+    const write = () => {
+      if (pendingWriteRef.current === write) pendingWriteRef.current = null;
+      saveSession(session)
+        .then(refreshSessions)
+        .catch((error) => console.error('Failed to save the editing session:', error));
+    };
+    pendingWriteRef.current = write;
+    const timer = setTimeout(write, SAVE_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      // Another recording was opened: write the last changes to this one now
+      if (pendingWriteRef.current === write && keyRef.current !== session.key) write();
+    };
+  }, [sessionKey, segments, fileSegments, selectedSegmentId, isPlaying, positionStep, audioRef, refreshSessions]);
+
+  // The page is closed or reloaded before the delay: write the last changes now
+  useEffect(() => {
+    const flush = () => pendingWriteRef.current?.();
+    window.addEventListener('pagehide', flush);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      window.removeEventListener('beforeunload', flush);
+    };
+  }, []);
+
+  const sessions = useMemo(() => savedSessions.filter((session) => session.segments.length > 0), [savedSessions]);
+
+  const removeSession = useCallback((key: string) => {
+    deleteSession(key)
+      .then(refreshSessions)
+      .catch((error) => console.error('Failed to delete the editing session:', error));
+  }, [refreshSessions]);
+
+  return {
+    sessions,
+    sessionKey,
+    removeSession
+  };
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  getShortcutFromEvent,
+  loadShortcutPreferences,
+  saveShortcutPreferences,
+  ShortcutAction,
+  ShortcutPreferences
+} from '@/utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Typing in these must not trigger shortcuts
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Page-wide keyboard shortcuts, remappable and saved per user.
+ * Keys already handled by a focused control (sliders, marker handles, tabs) are left to it.
+ */
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const [preferences, setPreferences] = useState<ShortcutPreferences>(loadShortcutPreferences);
+
+  // The listener reads the latest handlers without being re-attached on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || (event.repeat && event.key === ' ') || isEditable(event.target)) return;
+
+      const shortcut = getShortcutFromEvent(event);
+      const action = shortcut && findShortcutAction(preferences.bindings, shortcut);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+
+      // Also keeps Space from clicking the focused button
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, preferences.bindings]);
+
+  const updatePreferences = useCallback((update: Partial<ShortcutPreferences>) => {
+    setPreferences((previous) => {
+      const next = { ...previous, ...update };
+      saveShortcutPreferences(next);
+      return next;
+    });
+  }, []);
+
+  // Binds a shortcut to an action, taking it from the action that had it
+  const bindShortcut = useCallback((action: ShortcutAction, shortcut: string) => {
+    setPreferences((previous) => {
+      const bindings = { ...previous.bindings };
+      const current = findShortcutAction(bindings, shortcut);
+      if (current && current !== action) bindings[current] = '';
+      bindings[action] = shortcut;
+      const next = { ...previous, bindings };
+      saveShortcutPreferences(next);
+      return next;
+    });
+  }, []);
+
+  const resetPreferences = useCallback(() => {
+    saveShortcutPreferences(DEFAULT_SHORTCUTS);
+    setPreferences(DEFAULT_SHORTCUTS);
+  }, []);
+
+  return {
+    preferences,
+    updatePreferences,
+    bindShortcut,
+    resetPreferences
+  };
+};
@@ -0,0 +1,51 @@
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { eachDayOfInterval, endOfMonth, format, isSameMonth, startOfMonth } from 'date-fns';
+import { fetchAvailability, DayAvailability, RecordingServiceError } from '@/utils/recordingService';
+
+/**
+ * Recorded hours of a canal, loaded a month at a time from the index and kept by date.
+ * Days of a loaded month without recordings have no hours; days not loaded yet are absent.
+ * The current month is fetched again on each request since its hours are still being recorded.
+ */
+export const useRecordingAvailability = (canal: string | null) => {
+  const [availability, setAvailability] = useState<Record<string, DayAvailability['hours']>>({});
+  const loadedMonthsRef = useRef(new Set<string>());
+  const canalRef = useRef(canal);
+  canalRef.current = canal;
+
+  useEffect(() => {
+    setAvailability({});
+    loadedMonthsRef.current = new Set();
+  }, [canal]);
+
+  const loadMonth = useCallback(async (month: Date) => {
+    const key = format(month, 'yyyy-MM');
+    if (!canal || (loadedMonthsRef.current.has(key) && !isSameMonth(month, new Date()))) return;
+    loadedMonthsRef.current.add(key);
+
+    try {
+      const days = await fetchAvailability(canal, startOfMonth(month), endOfMonth(month));
+      if (canalRef.current !== canal) return;
+
+      setAvailability((previous) => {
+        const next = { ...previous };
+        eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).forEach((day) => {
+          next[format(day, 'yyyy-MM-dd')] = {};
+        });
+        days.forEach((day) => {
+          next[day.date] = day.hours;
+        });
+        return next;
+      });
+    } catch (error) {
+      loadedMonthsRef.current.delete(key);
+      console.error("Error loading recording availability:", error instanceof RecordingServiceError ? error.message : error);
+    }
+  }, [canal]);
+
+  return {
+    availability,
+    loadMonth
+  };
+};
@@ -0,0 +1,98 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { AudioSegment } from './useAudioTypes';
+
+interface SegmentSnapshot {
+  segments: AudioSegment[];
+  selectedSegmentId: string | null;
+  description: string; // of the change made from this state
+}
+
+const HISTORY_LIMIT = 100;
+
+// Changes with the same key closer than this (a drag, typing notes) are undone together
+const COALESCE_DELAY = 1000;
+
+/**
+ * Undo/redo history of the segments and their markers. Changes are recorded before they are
+ * made, with the state they start from; undoing also restores the selected segment.
+ */
+export const useSegmentHistory = ({
+  segments,
+  setSegments,
+  selectedSegmentId,
+  setSelectedSegmentId
+}: {
+  segments: AudioSegment[];
+  setSegments: (segments: AudioSegment[]) => void;
+  selectedSegmentId: string | null;
+  setSelectedSegmentId: (id: string | null) => void;
+}) => {
+  const pastRef = useRef<SegmentSnapshot[]>([]);
+  const futureRef = useRef<SegmentSnapshot[]>([]);
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null);
+  const [, setVersion] = useState(0);
+
+  // State as of the last render, which the next change starts from
+  const currentRef = useRef({ segments, selectedSegmentId });
+  currentRef.current = { segments, selectedSegmentId };
+
+  const refresh = useCallback(() => setVersion((version) => version + 1), []);
+
+  // Call before changing the segments
+  const recordChange = useCallback((description: string, key?: string) => {
+    const now = Date.now();
+    const last = lastChangeRef.current;
+    if (key && last?.key === key && now - last.time < COALESCE_DELAY) {
+      last.time = now;
+      return;
+    }
+    lastChangeRef.current = key ? { key, time: now } : null;
+
+    pastRef.current = [...pastRef.current, { ...currentRef.current, description }].slice(-HISTORY_LIMIT);
+    futureRef.current = [];
+    refresh();
+  }, [refresh]);
+
+  // Moves the last snapshot of one stack to the state, and the state to the other stack
+  const restore = useCallback((from: React.MutableRefObject<SegmentSnapshot[]>, to: React.MutableRefObject<SegmentSnapshot[]>) => {
+    const snapshot = from.current[from.current.length - 1];
+    if (!snapshot) return null;
+
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, { ...currentRef.current, description: snapshot.description }];
+    currentRef.current = { segments: snapshot.segments, selectedSegmentId: snapshot.selectedSegmentId };
+    lastChangeRef.current = null;
+    setSegments(snapshot.segments);
+    setSelectedSegmentId(snapshot.selectedSegmentId);
+    refresh();
+    return snapshot;
+  }, [setSegments, setSelectedSegmentId, refresh]);
+
+  const undo = useCallback(() => {
+    const snapshot = restore(pastRef, futureRef);
+    if (snapshot) toast.info(`Annulé : ${snapshot.description}`);
+  }, [restore]);
+
+  const redo = useCallback(() => {
+    const snapshot = restore(futureRef, pastRef);
+    if (snapshot) toast.info(`Rétabli : ${snapshot.description}`);
+  }, [restore]);
+
+  // Forget the history, e.g. when the segments it refers to are dropped
+  const clearHistory = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastChangeRef.current = null;
+    refresh();
+  }, [refresh]);
+
+  return {
+    recordChange,
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    clearHistory
+  };
+};
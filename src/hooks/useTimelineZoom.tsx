@@ -0,0 +1,61 @@
+
+import { useState, useCallback, useEffect } from 'react';
+
+// Shortest window the timeline can zoom into, in seconds
+const MIN_VISIBLE_DURATION = 2;
+
+export const useTimelineZoom = (duration: number) => {
+  const [viewStart, setViewStart] = useState(0);
+  const [visibleDuration, setVisibleDuration] = useState(duration);
+
+  // Show the whole file whenever a new one is loaded
+  useEffect(() => {
+    setViewStart(0);
+    setVisibleDuration(duration);
+  }, [duration]);
+
+  const clampStart = useCallback((start: number, visible: number) =>
+    Math.max(0, Math.min(start, Math.max(0, duration - visible))),
+  [duration]);
+
+  // Zoom by a factor (> 1 zooms in) keeping the anchor time at the same place on screen
+  const zoomAt = useCallback((factor: number, anchorTime: number) => {
+    if (duration <= 0) return;
+
+    const nextVisible = Math.min(duration, Math.max(Math.min(MIN_VISIBLE_DURATION, duration), visibleDuration / factor));
+    const anchorRatio = visibleDuration > 0 ? (anchorTime - viewStart) / visibleDuration : 0.5;
+
+    setVisibleDuration(nextVisible);
+    setViewStart(clampStart(anchorTime - anchorRatio * nextVisible, nextVisible));
+  }, [duration, visibleDuration, viewStart, clampStart]);
+
+  const scrollTo = useCallback((start: number) => {
+    setViewStart(clampStart(start, visibleDuration));
+  }, [visibleDuration, clampStart]);
+
+  const scrollBy = useCallback((seconds: number) => {
+    setViewStart((previous) => clampStart(previous + seconds, visibleDuration));
+  }, [visibleDuration, clampStart]);
+
+  // Centre the view on a time without changing the zoom
+  const centerOn = useCallback((time: number) => {
+    setViewStart(clampStart(time - visibleDuration / 2, visibleDuration));
+  }, [visibleDuration, clampStart]);
+
+  const zoomToFit = useCallback(() => {
+    setViewStart(0);
+    setVisibleDuration(duration);
+  }, [duration]);
+
+  return {
+    viewStart,
+    viewEnd: viewStart + visibleDuration,
+    visibleDuration,
+    isZoomed: visibleDuration < duration,
+    zoomAt,
+    scrollTo,
+    scrollBy,
+    centerOn,
+    zoomToFit
+  };
+};
@@ -0,0 +1,50 @@
+
+import { useEffect, useState } from 'react';
+import { AudioFile } from './useAudioTypes';
+import { loadWaveformPeaks, WaveformPeaks } from '@/utils/waveformPeaks';
+
+export const useWaveformPeaks = (file: AudioFile | null) => {
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
+
+  useEffect(() => {
+    setPeaks(null);
+    setAnalysisProgress(0);
+
+    if (!file || !file.url || file.url === 'synthetic-audio') {
+      setIsAnalysing(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    // The hour being recorded keeps growing, so its size and date are part of the key
+    const cacheKey = `${file.url}|${file.size}|${file.lastModified}`;
+
+    setIsAnalysing(true);
+
+    loadWaveformPeaks(file.url, cacheKey, {
+      signal: controller.signal,
+      onProgress: setAnalysisProgress,
+    })
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setPeaks(result);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Error computing waveform peaks:", error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsAnalysing(false);
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  return {
+    peaks,
+    isAnalysing,
+    analysisProgress
+  };
+};
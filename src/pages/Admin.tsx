@@ -23,6 +23,9 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useSettings } from "@/contexts/SettingsContext";
 import { CityFolder } from "@/utils/settingsService";
+import { DEFAULT_EXPORT_FILENAME_TEMPLATE, EXPORT_FILENAME_TOKENS } from "@/utils/exportNaming";
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, describeExportOptions } from "@/utils/exportOptions";
+import { ExportOptionsFields } from "@/components/ExportOptionsFields";
 
 interface User {
   username: string;
@@ -41,6 +44,8 @@ const Admin = () => {
   const [newCityFolderName, setNewCityFolderName] = useState("");
   const [editingCity, setEditingCity] = useState<CityFolder | null>(null);
   const [originalFolderName, setOriginalFolderName] = useState<string>("");
+  const [newPresetName, setNewPresetName] = useState("");
+  const [newPresetOptions, setNewPresetOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
   
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
   const [newPassword, setNewPassword] = useState("");
@@ -195,6 +200,38 @@ const Admin = () => {
     setLocalSettings(updatedSettings);
   };
 
+  const handleAddPreset = () => {
+    if (!localSettings) return;
+
+    const name = newPresetName.trim();
+    if (!name) {
+      toast.error("Veuillez nommer le préréglage");
+      return;
+    }
+
+    if (localSettings.exportPresets.some(preset => preset.name === name)) {
+      toast.error("Un préréglage porte déjà ce nom");
+      return;
+    }
+
+    setLocalSettings({
+      ...localSettings,
+      exportPresets: [...localSettings.exportPresets, { name, options: newPresetOptions }]
+    });
+
+    setNewPresetName("");
+    setNewPresetOptions(DEFAULT_EXPORT_OPTIONS);
+  };
+
+  const handleRemovePreset = (name: string) => {
+    if (!localSettings) return;
+
+    setLocalSettings({
+      ...localSettings,
+      exportPresets: localSettings.exportPresets.filter(preset => preset.name !== name)
+    });
+  };
+
   const handleUpdateCity = () => {
     if (!localSettings || !editingCity) return;
     
@@ -282,11 +319,12 @@ const Admin = () => {
       </div>
       
       <Tabs defaultValue="users" className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="users">Utilisateurs</TabsTrigger>
           <TabsTrigger value="headers">Titres et En-têtes</TabsTrigger>
           <TabsTrigger value="colors">Couleurs</TabsTrigger>
           <TabsTrigger value="folders">Dossiers Audio</TabsTrigger>
+          <TabsTrigger value="exports">Exports</TabsTrigger>
           <TabsTrigger value="cities">Villes</TabsTrigger>
         </TabsList>
         
@@ -593,7 +631,7 @@ const Admin = () => {
             <CardHeader>
               <CardTitle>Emplacement des fichiers audio</CardTitle>
               <CardDescription>
-                Configurer le dossier où sont stockés les fichiers audio
+                Configurer le dossier où sont stockés les fichiers audio et le nom des fichiers exportés
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -608,14 +646,91 @@ const Admin = () => {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="exportTemplate">Nom des fichiers exportés</Label>
+                  <Input
+                    id="exportTemplate"
+                    value={localSettings.exportFileNameTemplate}
+                    onChange={(e) => setLocalSettings({...localSettings, exportFileNameTemplate: e.target.value})}
+                    placeholder={DEFAULT_EXPORT_FILENAME_TEMPLATE}
+                    className="font-mono"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Variables disponibles : {EXPORT_FILENAME_TOKENS.map((token) => `{${token}}`).join(", ")}
+                  </p>
+                </div>
+                
                 <div className="pt-2">
-                  <Button onClick={handleSaveSettings}>Enregistrer le chemin</Button>
+                  <Button onClick={handleSaveSettings}>Enregistrer</Button>
                 </div>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
         
+        <TabsContent value="exports" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Préréglages d'export</CardTitle>
+              <CardDescription>
+                Formats proposés aux utilisateurs lors de l'export d'un extrait
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-6">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new-preset-name">Nom du préréglage</Label>
+                    <Input
+                      id="new-preset-name"
+                      value={newPresetName}
+                      onChange={(e) => setNewPresetName(e.target.value)}
+                      placeholder="Ex: Envoi annonceur"
+                    />
+                  </div>
+                  <ExportOptionsFields options={newPresetOptions} onChange={setNewPresetOptions} />
+                  <Button onClick={handleAddPreset}>Ajouter le préréglage</Button>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Préréglages disponibles</h3>
+                  <div className="border rounded-md divide-y">
+                    {localSettings.exportPresets.length > 0 ?
+                      localSettings.exportPresets.map((preset) => (
+                        <div key={preset.name} className="p-4 flex justify-between items-center">
+                          <div>
+                            <p className="font-medium">{preset.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {describeExportOptions(preset.options)}
+                            </p>
+                          </div>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleRemovePreset(preset.name)}
+                          >
+                            Supprimer
+                          </Button>
+                        </div>
+                      )) : (
+                        <div className="p-4 text-center text-muted-foreground">
+                          Aucun préréglage configuré
+                        </div>
+                      )
+                    }
+                  </div>
+                </div>
+
+                <div className="pt-2">
+                  <Button onClick={handleSaveSettings}>Enregistrer les modifications</Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="cities" className="mt-6">
           <Card>
             <CardHeader>
@@ -2,16 +2,29 @@ import { useState } from "react";
 import { AudioPlayer } from "@/components/AudioPlayer";
 import { FileBrowser } from "@/components/FileBrowser";
 import { MarkerControls } from "@/components/MarkerControls";
+import { SegmentList } from "@/components/SegmentList";
 import { LocalAudioLoader } from "@/components/LocalAudioLoader";
 import { AudioConverter } from "@/components/AudioConverter";
+import { Waveform } from "@/components/Waveform";
+import { DayTimeline } from "@/components/DayTimeline";
+import { ShortcutsHelp } from "@/components/ShortcutsHelp";
+import { SessionList } from "@/components/SessionList";
 import { useAudio } from "@/hooks/useAudio";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { CassetteTapeIcon, HeadphonesIcon } from "lucide-react";
+import { CassetteTapeIcon, HeadphonesIcon, KeyboardIcon } from "lucide-react";
+import { toast } from "sonner";
 import { useSettings } from "@/contexts/SettingsContext";
 import { Button } from "@/components/ui/button";
+import { ExportOptions } from "@/utils/exportOptions";
+import { EditingSession } from "@/utils/editingSessions";
+import { parseISO } from "date-fns";
 
 const Index = () => {
   const [isExporting, setIsExporting] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Marker moved by the nudge shortcuts: the last one set or moved
+  const [selectedMarkerType, setSelectedMarkerType] = useState<"start" | "end">("start");
   const { settings } = useSettings();
   
   const {
@@ -19,13 +32,37 @@ const Index = () => {
     isLoading,
     markers,
     addMarker,
-    removeMarker,
-    setMarkers,
+    moveMarker,
+    segments,
+    selectedSegment,
+    fileSegments,
+    selectSegment,
+    updateSegment,
+    deleteSegment,
+    resetSegments,
+    playSegment,
+    formatMarkerPosition,
+    formatSegmentBound,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    sessions,
+    sessionKey,
+    removeSession,
+    exportOptions,
+    exportProgress,
     exportTrimmedAudio,
+    exportSegmentsAsZip,
+    cancelExport,
     loadAudioFile,
     loadFilesFromUNC,
     formatTime,
-    formatTimeDetailed,
+    formatDuration,
+    parseTime,
+    timeDisplayMode,
+    setTimeDisplayMode,
+    wallClockStart,
     isPlaying,
     currentTime,
     duration,
@@ -33,30 +70,53 @@ const Index = () => {
     togglePlay,
     seek,
     changeVolume,
+    playbackRate,
+    changePlaybackRate,
+    shuttleSpeed,
+    shuttle,
+    audition,
+    auditionRoll,
+    setAuditionRoll,
     currentAudioFile,
     isBuffering,
     showMarkerControls,
     setShowMarkerControls,
-    audioRef
+    audioRef,
+    frameDuration,
+    continuousPlayback,
+    setContinuousPlayback,
+    dayDate,
+    dayPosition,
+    availableHours,
+    seekDay,
+    copyLink,
+    peaks,
+    isAnalysing,
+    analysisProgress
   } = useAudio();
 
   const handleFileSelect = async (file) => {
     setShowMarkerControls(false);
     await loadAudioFile(file);
-    setMarkers([]); // Clear markers when loading a new file
   };
 
-  const handleSearch = (path, city, date, hour, typeInitial) => {
+  const handleSearch = (path, city, date, hour, typeInitial, position) => {
     setShowMarkerControls(false);
-    loadFilesFromUNC(path, city, date, hour, typeInitial);
-    setMarkers([]); // Clear markers when loading a new file
+    loadFilesFromUNC(path, city, date, hour, typeInitial, position);
   };
 
-  const handleExport = async () => {
+  // Reopen a recording with work in progress, where it was left
+  const handleOpenSession = (session: EditingSession) => {
+    if (!session.recording || !settings) return;
+    const { canal, date, hour, typeInitial } = session.recording;
+    handleSearch(`${settings.audioFolderPath}\\${canal}\\${date}\\${hour}.mp3`, canal, parseISO(date), hour, typeInitial, session.position);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
     try {
       setIsExporting(true);
       console.log("Starting export process");
-      await exportTrimmedAudio();
+      await exportTrimmedAudio(options);
     } catch (error) {
       console.error("Export error:", error);
     } finally {
@@ -67,6 +127,68 @@ const Index = () => {
     }
   };
 
+  const handleExportSegments = async () => {
+    try {
+      setIsExporting(true);
+      await exportSegmentsAsZip();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleAddMarker = (type: "start" | "end") => {
+    setSelectedMarkerType(type);
+    addMarker(type);
+  };
+
+  const handleMarkerMove = (type: "start" | "end", position: number) => {
+    setSelectedMarkerType(type);
+    moveMarker(type, position);
+  };
+
+  const nudgeMarker = (direction: -1 | 1) => {
+    const marker = markers.find((m) => m.type === selectedMarkerType) ?? markers[0];
+    if (marker) moveMarker(marker.type, marker.position + direction * shortcutPreferences.nudgeStep);
+  };
+
+  const skip = (seconds: number) => seek(Math.min(duration, Math.max(0, currentTime + seconds)));
+
+  const exportSelection = () => {
+    const startMarker = markers.find((m) => m.type === "start");
+    const endMarker = markers.find((m) => m.type === "end");
+    if (isExporting) return;
+    if ((!startMarker && !endMarker) || (startMarker && endMarker && startMarker.position >= endMarker.position)) {
+      toast.error("Placez des marqueurs début et fin valides avant d'exporter");
+      return;
+    }
+    handleExport(exportOptions);
+  };
+
+  const hasAudio = !!currentAudioFile && duration > 0;
+  const {
+    preferences: shortcutPreferences,
+    updatePreferences: updateShortcutPreferences,
+    bindShortcut,
+    resetPreferences: resetShortcutPreferences
+  } = useKeyboardShortcuts({
+    showHelp: () => setShowShortcuts(true),
+    undo,
+    redo,
+    ...(hasAudio && {
+      playPause: togglePlay,
+      shuttleBack: () => shuttle(-1),
+      shuttleStop: () => shuttle(0),
+      shuttleForward: () => shuttle(1),
+      markIn: () => handleAddMarker("start"),
+      markOut: () => handleAddMarker("end"),
+      skipBack: () => skip(-shortcutPreferences.skipStep),
+      skipForward: () => skip(shortcutPreferences.skipStep),
+      nudgeBack: () => nudgeMarker(-1),
+      nudgeForward: () => nudgeMarker(1),
+      export: exportSelection
+    })
+  }, !showShortcuts);
+
   const handleDownloadFullAudio = () => {
     if (!audioRef.current || !currentAudioFile || !audioRef.current.src) return;
 
@@ -106,6 +228,15 @@ const Index = () => {
             <span>Pige</span>
           </h1>
             <CassetteTapeIcon className="h-8 w-8"/>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowShortcuts(true)}
+              aria-label="Raccourcis clavier"
+              title="Raccourcis clavier (?)"
+            >
+              <KeyboardIcon className="h-5 w-5" />
+            </Button>
           </div>
         </div>
       </header>
@@ -113,10 +244,11 @@ const Index = () => {
       <div className="flex-1 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6 p-6">
         <div className="md:col-span-1 h-full flex flex-col min-h-0 overflow-hidden">
           <Tabs defaultValue="browser" className="h-full flex flex-col">
-            <TabsList className="grid grid-cols-2 w-full mb-2">
+            <TabsList className="grid grid-cols-4 w-full mb-2">
               <TabsTrigger value="browser">Serveur</TabsTrigger>
               <TabsTrigger value="local">Fichiers</TabsTrigger>
-              {/* <TabsTrigger value="convert">Convertir</TabsTrigger> */}
+              <TabsTrigger value="sessions">En cours</TabsTrigger>
+              <TabsTrigger value="convert">Convertir</TabsTrigger>
             </TabsList>
             
             <TabsContent value="browser" className="flex-1 overflow-hidden">
@@ -132,6 +264,15 @@ const Index = () => {
               <LocalAudioLoader onFileLoad={handleFileSelect} />
             </TabsContent>
             
+            <TabsContent value="sessions" className="flex-1 overflow-hidden">
+              <SessionList
+                sessions={sessions}
+                currentKey={sessionKey}
+                onOpen={handleOpenSession}
+                onDelete={removeSession}
+              />
+            </TabsContent>
+            
             <TabsContent value="convert" className="flex-1 overflow-hidden">
               <AudioConverter />
             </TabsContent>
@@ -149,14 +290,58 @@ const Index = () => {
               onVolumeChange={changeVolume}
               onSeek={seek}
               formatTime={formatTime}
+              parseTime={parseTime}
+              timeDisplayMode={currentAudioFile?.recording ? timeDisplayMode : undefined}
+              onTimeDisplayModeChange={setTimeDisplayMode}
+              onCopyLink={currentAudioFile?.recording ? copyLink : undefined}
               audioTitle={currentAudioFile ? currentAudioFile.name : "No audio loaded"}
               isLoading={isLoading}
               isBuffering={isBuffering}
-              audioRef={audioRef}
               markers={markers}
+              onMarkerMove={handleMarkerMove}
+              frameDuration={frameDuration}
+              playbackRate={playbackRate}
+              onPlaybackRateChange={changePlaybackRate}
+              shuttleSpeed={shuttleSpeed}
+              skipStep={shortcutPreferences.skipStep}
+              onSkipStepChange={(skipStep) => updateShortcutPreferences({ skipStep })}
+              onAudition={audition}
+              auditionRoll={auditionRoll}
+              onAuditionRollChange={setAuditionRoll}
             />
           </div>
 
+          {currentAudioFile?.recording && dayDate && dayPosition !== null && (
+            <DayTimeline
+              date={dayDate}
+              dayPosition={dayPosition}
+              currentHour={currentAudioFile.recording.hour}
+              availableHours={availableHours}
+              segments={segments}
+              continuousPlayback={continuousPlayback}
+              onContinuousPlaybackChange={setContinuousPlayback}
+              onSeek={seekDay}
+            />
+          )}
+
+          {currentAudioFile && (
+            <Waveform
+              currentTime={currentTime}
+              duration={duration}
+              markers={markers}
+              segments={fileSegments}
+              selectedSegmentId={selectedSegment?.id ?? null}
+              onSeek={seek}
+              onMarkerMove={handleMarkerMove}
+              frameDuration={frameDuration}
+              isPlaying={isPlaying}
+              peaks={peaks}
+              isAnalysing={isAnalysing}
+              analysisProgress={analysisProgress}
+              wallClockStart={wallClockStart}
+            />
+          )}
+
           <div className="h-fit">
             {currentAudioFile && !showMarkerControls && (
               <div className="flex justify-end space-x-2 mb-4">
@@ -179,19 +364,55 @@ const Index = () => {
             )}
             
             {showMarkerControls && (
-              <MarkerControls
-                markers={markers}
-                onAddMarker={addMarker}
-                onExport={handleExport}
-                onResetMarkers={() => setMarkers([])}
-                currentTime={currentTime}
-                formatTimeDetailed={formatTimeDetailed}
-                isExporting={isExporting}
-              />
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                <MarkerControls
+                  markers={markers}
+                  segmentLabel={selectedSegment?.label}
+                  onAddMarker={handleAddMarker}
+                  onMarkerChange={handleMarkerMove}
+                  exportOptions={exportOptions}
+                  onExport={handleExport}
+                  onCancelExport={cancelExport}
+                  exportProgress={exportProgress}
+                  onResetMarkers={resetSegments}
+                  currentTime={currentTime}
+                  formatTimeDetailed={formatMarkerPosition}
+                  parseTime={parseTime}
+                  isExporting={isExporting}
+                  onAudition={audition}
+                  auditionRoll={auditionRoll}
+                  onUndo={undo}
+                  onRedo={redo}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                />
+
+                <SegmentList
+                  segments={segments}
+                  selectedSegmentId={selectedSegment?.id ?? null}
+                  onSelect={selectSegment}
+                  onUpdate={updateSegment}
+                  onDelete={deleteSegment}
+                  onPlay={(segment) => playSegment(segment.id)}
+                  onExportAll={handleExportSegments}
+                  isExporting={isExporting}
+                  formatBound={formatSegmentBound}
+                  formatDuration={formatDuration}
+                />
+              </div>
             )}
           </div>
         </div>
       </div>
+
+      <ShortcutsHelp
+        open={showShortcuts}
+        onOpenChange={setShowShortcuts}
+        preferences={shortcutPreferences}
+        onBind={bindShortcut}
+        onChange={updateShortcutPreferences}
+        onReset={resetShortcutPreferences}
+      />
     </div>
   );
 };
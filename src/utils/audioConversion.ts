@@ -0,0 +1,123 @@
+import { fetchFile } from '@ffmpeg/util';
+import { ProcessingError, transcode } from '@/utils/audioProcessing';
+
+export type ConversionFormat = 'mp3' | 'ogg' | 'opus' | 'flac' | 'wav';
+export type BitrateMode = 'cbr' | 'vbr';
+
+export interface ConversionOptions {
+  format: ConversionFormat;
+  bitrateMode: BitrateMode; // MP3 only
+  bitrate: number; // in kbps, for CBR MP3, Vorbis and Opus
+  vbrQuality: number; // LAME -V scale, 0 (best) to 9
+}
+
+export const CONVERSION_FORMATS: Record<ConversionFormat, { label: string; extension: string; mimeType: string; hasBitrate: boolean }> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', hasBitrate: true },
+  ogg: { label: 'Ogg Vorbis', extension: 'ogg', mimeType: 'audio/ogg', hasBitrate: true },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', hasBitrate: true },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', hasBitrate: false },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', hasBitrate: false }
+};
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  format: 'mp3',
+  bitrateMode: 'cbr',
+  bitrate: 192,
+  vbrQuality: 2
+};
+
+// Messages exchanged with the encoder worker
+export interface EncoderRequest {
+  format: 'mp3' | 'wav';
+  channels: Float32Array[];
+  sampleRate: number;
+  bitrate: number;
+}
+
+export type EncoderResponse =
+  | { type: 'progress'; ratio: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+// Share of the progress bar given to decoding before the worker encodes
+const DECODE_SHARE = 0.1;
+
+// CBR MP3 and WAV: decoded by the browser, encoded in a worker
+const encodeInWorker = async (file: File, options: ConversionOptions, onProgress: (ratio: number) => void) => {
+  const audioContext = new AudioContext();
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    audioContext.close();
+  }
+  onProgress(DECODE_SHARE);
+
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, index) => audioBuffer.getChannelData(index).slice());
+  const worker = new Worker(new URL('../workers/audioEncoder.worker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') onProgress(DECODE_SHARE + message.ratio * (1 - DECODE_SHARE));
+        else if (message.type === 'done') resolve(message.blob);
+        else reject(new Error(message.message));
+      };
+      worker.onerror = (event) => reject(new Error(event.message));
+
+      const request: EncoderRequest = {
+        format: options.format === 'mp3' ? 'mp3' : 'wav',
+        channels,
+        sampleRate: audioBuffer.sampleRate,
+        bitrate: options.bitrate
+      };
+      worker.postMessage(request, channels.map((channel) => channel.buffer));
+    });
+  } finally {
+    worker.terminate();
+  }
+};
+
+const getCodecArgs = (options: ConversionOptions) => {
+  switch (options.format) {
+    case 'mp3':
+      return ['-c:a', 'libmp3lame', '-q:a', options.vbrQuality.toString()];
+    case 'ogg':
+      return ['-c:a', 'libvorbis', '-b:a', `${options.bitrate}k`];
+    case 'opus':
+      return ['-c:a', 'libopus', '-b:a', `${options.bitrate}k`];
+    default:
+      return ['-c:a', 'flac'];
+  }
+};
+
+// VBR MP3, Vorbis, Opus and FLAC: ffmpeg.wasm, in the audio processing worker
+const encodeWithFFmpeg = async (file: File, options: ConversionOptions, onProgress: (ratio: number) => void) => {
+  const input = await fetchFile(file);
+  const inputName = `convert_input${file.name.match(/\.[^/.]+$/)?.[0] ?? ''}`;
+  const outputName = `convert_output.${CONVERSION_FORMATS[options.format].extension}`;
+
+  try {
+    const { data } = await transcode(input, inputName, ['-i', inputName, '-vn', ...getCodecArgs(options), outputName], {
+      outputName,
+      onProgress
+    });
+    return new Blob([data!.buffer], { type: CONVERSION_FORMATS[options.format].mimeType });
+  } catch (error) {
+    if (error instanceof ProcessingError) throw new Error(`L'encodage a échoué : ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Converts an audio file to the chosen format, reporting progress from 0 to 1.
+ */
+export const convertAudio = (file: File, options: ConversionOptions, onProgress: (ratio: number) => void): Promise<Blob> =>
+  options.format === 'wav' || (options.format === 'mp3' && options.bitrateMode === 'cbr')
+    ? encodeInWorker(file, options, onProgress)
+    : encodeWithFFmpeg(file, options, onProgress);
+
+// "interview.wav" → "interview.mp3"
+export const getConvertedFileName = (fileName: string, format: ConversionFormat) =>
+  `${fileName.replace(/\.[^/.]+$/, '')}.${CONVERSION_FORMATS[format].extension}`;
@@ -0,0 +1,84 @@
+/**
+ * ffmpeg audio filters applied on export: fades and EBU R128 loudness normalization.
+ */
+
+export interface LoudnessTarget {
+  integrated: number; // in LUFS
+  truePeak: number; // in dBTP
+}
+
+export interface LoudnessStats {
+  integrated: number; // in LUFS
+  truePeak: number; // in dBTP
+  range: number; // in LU
+  threshold: number; // in LUFS
+}
+
+// What the loudnorm filter prints with print_format=json
+export interface LoudnormReport {
+  input: LoudnessStats;
+  output: LoudnessStats;
+  targetOffset: number;
+}
+
+// Loudness range allowed around the target, the EBU R128 default
+const LOUDNESS_RANGE = 11;
+
+// Fades in and out of a clip of the given duration, both in seconds
+export const getFadeFilters = (duration: number, fadeIn: number, fadeOut: number) => {
+  const filters: string[] = [];
+  if (fadeIn > 0) filters.push(`afade=t=in:st=0:d=${Math.min(fadeIn, duration)}`);
+  if (fadeOut > 0) {
+    const length = Math.min(fadeOut, duration);
+    filters.push(`afade=t=out:st=${duration - length}:d=${length}`);
+  }
+  return filters;
+};
+
+/**
+ * The loudnorm filter for a first, measuring pass, or for the second pass when the
+ * first pass measurement is given, which then applies a linear gain instead of compressing.
+ */
+export const getLoudnormFilter = (target: LoudnessTarget, measured?: LoudnormReport) => {
+  const options = [`I=${target.integrated}`, `TP=${target.truePeak}`, `LRA=${LOUDNESS_RANGE}`];
+  if (measured) {
+    options.push(
+      `measured_I=${measured.input.integrated}`,
+      `measured_TP=${measured.input.truePeak}`,
+      `measured_LRA=${measured.input.range}`,
+      `measured_thresh=${measured.input.threshold}`,
+      `offset=${measured.targetOffset}`,
+      'linear=true'
+    );
+  }
+  options.push('print_format=json');
+  return `loudnorm=${options.join(':')}`;
+};
+
+/**
+ * Reads the JSON report loudnorm writes at the end of the ffmpeg log, or returns null if there is none.
+ */
+export const parseLoudnormReport = (log: string): LoudnormReport | null => {
+  const json = log.match(/\{[^{}]*"input_i"[^{}]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const values = JSON.parse(json) as Record<string, string>;
+    const read = (key: string) => parseFloat(values[key]);
+    const report: LoudnormReport = {
+      input: { integrated: read('input_i'), truePeak: read('input_tp'), range: read('input_lra'), threshold: read('input_thresh') },
+      output: { integrated: read('output_i'), truePeak: read('output_tp'), range: read('output_lra'), threshold: read('output_thresh') },
+      targetOffset: read('target_offset')
+    };
+    // Silence measures as -inf, which cannot drive a second pass
+    return Number.isFinite(report.input.integrated) && Number.isFinite(report.input.threshold) ? report : null;
+  } catch (error) {
+    console.error('Failed to parse loudnorm report:', error);
+    return null;
+  }
+};
+
+// "-23,0 LUFS, -1,0 dBTP"
+export const formatLoudness = (stats: LoudnessStats) =>
+  `${stats.integrated.toLocaleString('fr-FR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} LUFS, ` +
+  `${stats.truePeak.toLocaleString('fr-FR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} dBTP`;
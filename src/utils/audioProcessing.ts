@@ -0,0 +1,266 @@
+import type { WaveformPeaks } from './peakAccumulator';
+import type { ZipEntry } from './zipWriter';
+
+/**
+ * Client of the audio processing worker, which downloads, cuts, re-encodes and analyses recordings
+ * and builds ZIP files off the main thread. Recordings downloaded for an export stay in the worker;
+ * only the clips cut from them come back, as transferred buffers.
+ * When the recording server gives a seek index, only the part of a recording an export needs is downloaded.
+ */
+
+export interface ByteRange {
+  start: number;
+  end: number; // exclusive
+}
+
+// In seconds from the start of a recording
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+// A recording to cut from, downloaded beforehand with storeRecording
+export interface TrimSource {
+  key: string; // as given by storeRecording
+  offset: number; // start of the file, in the cut's time reference
+}
+
+// MP3 frames cut without re-encoding, and what they hold
+export interface TrimResult {
+  data: Uint8Array;
+  in: number; // start of the first frame, in the cut's time reference
+  out: number; // end of the last frame
+  bitrate: number; // in kbps, of the first frame
+  sampleRate: number;
+  frameDuration: number; // in seconds
+  startPadding: number; // seconds a player drops at the start of the first recording (encoder and decoder delays)
+}
+
+// Input of an ffmpeg command: a recording stored in the worker, or bytes transferred to it
+export type TranscodeInput = { key: string } | { data: Uint8Array };
+
+// What ffmpeg wrote, null for a command without an output file, and its log
+export interface TranscodeResult {
+  data: Uint8Array | null;
+  log: string[];
+}
+
+// Messages exchanged between the audio processing worker and the ffmpeg worker it starts
+export interface FFmpegCommand {
+  scriptUrl: string; // of ffmpeg.wasm, loaded by the ffmpeg worker on its first command
+  input: Uint8Array;
+  inputName: string;
+  args: string[];
+  outputName: string | null;
+}
+
+export type FFmpegResponse =
+  | { type: 'progress'; ratio: number; time: number | null }
+  | ({ type: 'done' } & TranscodeResult)
+  | { type: 'error'; message: string };
+
+// Messages sent to the worker; `cancel` refers to the id of the request to stop
+export type ProcessingRequest =
+  | { type: 'fetch'; url: string; range: ByteRange | null }
+  | { type: 'store'; url: string; span: TimeSpan | null; indexUrl: string | null }
+  | { type: 'release'; keys: string[] }
+  | { type: 'trim'; sources: TrimSource[]; start: number; end: number; tag: ArrayBuffer | null }
+  | { type: 'peaks-start'; session: number; estimatedSamples: number }
+  | { type: 'peaks-add'; session: number; channels: Float32Array[]; startSample: number; length: number }
+  | { type: 'peaks-finish'; session: number; sampleRate: number; totalSamples: number }
+  | { type: 'peaks-discard'; session: number }
+  | { type: 'zip'; entries: ZipEntry[] }
+  | { type: 'transcode'; input: TranscodeInput; inputName: string; args: string[]; outputName: string | null; duration: number | null }
+  | { type: 'cancel' };
+
+export type ProcessingMessage = ProcessingRequest & { id: number };
+
+export type ProcessingResponse =
+  | { type: 'progress'; id: number; ratio: number }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string; status: number | null; aborted: boolean };
+
+// What the worker answers to a fetch request
+export interface FetchResult {
+  data: Uint8Array;
+  status: number;
+  size: number | null; // of the whole file, when known
+}
+
+export class ProcessingError extends Error {
+  status: number | null; // HTTP status, 0 when the server cannot be reached
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'ProcessingError';
+    this.status = status;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (ratio: number) => void;
+}
+
+interface RequestOptions {
+  transfer?: Transferable[];
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const abortError = () => new DOMException('Audio processing aborted', 'AbortError');
+
+// The worker is started on first use and shared by every caller
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/audioProcessing.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ProcessingResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.ratio);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'result') request.resolve(message.result);
+    else request.reject(message.aborted ? abortError() : new ProcessingError(message.message, message.status));
+  };
+  // A crashed worker loses its recordings: fail what was waiting and start afresh next time
+  worker.onerror = (event) => {
+    console.error('Audio processing worker failed:', event.message);
+    pending.forEach((request) => request.reject(new ProcessingError(event.message || 'Erreur du traitement audio', null)));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const request = <T>(message: ProcessingRequest, { transfer = [], signal, onProgress }: RequestOptions = {}) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const id = nextId++;
+    const target = getWorker();
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+    signal?.addEventListener('abort', () => {
+      if (pending.has(id)) target.postMessage({ type: 'cancel', id } satisfies ProcessingMessage);
+    }, { once: true });
+    target.postMessage({ ...message, id } satisfies ProcessingMessage, transfer);
+  });
+
+// The worker resolves relative URLs against its own script, not the page
+const resolveUrl = (url: string) => new URL(url, window.location.href).href;
+
+/**
+ * Fetches a URL, or a byte range of it when the server supports Range requests.
+ */
+export const fetchBytes = (url: string, range: ByteRange | null, signal?: AbortSignal) =>
+  request<FetchResult>({ type: 'fetch', url: resolveUrl(url), range }, { signal });
+
+interface StoreOptions {
+  span?: TimeSpan; // the part of the recording needed, fetched alone when `indexUrl` is given
+  indexUrl?: string; // seek index of the recording (see utils/mp3SeekIndex.ts)
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+}
+
+/**
+ * Downloads a recording, or the frames covering a span of it, into the worker, where it stays
+ * until released. Resolves to the key that designates it in the other requests.
+ * The whole file is downloaded when the seek index cannot be had.
+ */
+export const storeRecording = (url: string, { span, indexUrl, signal, onProgress }: StoreOptions = {}) =>
+  request<string>({
+    type: 'store',
+    url: resolveUrl(url),
+    span: span ?? null,
+    indexUrl: indexUrl ? resolveUrl(indexUrl) : null
+  }, { signal, onProgress });
+
+export const releaseRecordings = (keys: string[]) => {
+  if (keys.length > 0) request<void>({ type: 'release', keys }).catch(() => undefined);
+};
+
+/**
+ * Cuts stored MP3 recordings on frame boundaries, without re-encoding, keeping the frames that
+ * start between `start` and `end`, and puts the optional ID3 tag in front.
+ * Resolves to null when a recording is not an MP3.
+ */
+export const trimRecordings = (sources: TrimSource[], start: number, end: number, tag: Uint8Array | null, signal?: AbortSignal) => {
+  const tagBuffer = tag ? tag.slice().buffer : null;
+  return request<TrimResult | null>({
+    type: 'trim',
+    sources,
+    start,
+    end,
+    tag: tagBuffer
+  }, { signal, transfer: tagBuffer ? [tagBuffer] : [] });
+};
+
+/**
+ * Accumulates waveform peaks in the worker from decoded chunks. The chunks are transferred,
+ * so they must not be used after being added.
+ */
+export const createPeakSession = (estimatedSamples: number) => {
+  const session = nextId++;
+  // The worker handles messages in order: a failed start shows up as an unknown session
+  request<void>({ type: 'peaks-start', session, estimatedSamples }).catch(() => undefined);
+
+  return {
+    add: (channels: Float32Array[], startSample: number, length: number) => request<void>(
+      { type: 'peaks-add', session, channels, startSample, length },
+      { transfer: channels.map((channel) => channel.buffer) }
+    ),
+    finish: (sampleRate: number, totalSamples: number) =>
+      request<WaveformPeaks>({ type: 'peaks-finish', session, sampleRate, totalSamples }),
+    discard: () => {
+      request<void>({ type: 'peaks-discard', session }).catch(() => undefined);
+    }
+  };
+};
+
+/**
+ * Builds a ZIP file in the worker. The entries' buffers are transferred.
+ */
+export const createZipInWorker = (entries: ZipEntry[]) => {
+  const buffers = new Set(entries.map((entry) => entry.data.buffer as ArrayBuffer));
+  return request<Blob>({ type: 'zip', entries }, { transfer: [...buffers] });
+};
+
+interface TranscodeOptions {
+  outputName?: string; // file the command writes, which the result holds; none for a measuring pass
+  duration?: number; // seconds of audio the command outputs, to report progress from the time reached
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+}
+
+/**
+ * Runs an ffmpeg command in the worker, on a stored recording (by its key) or on bytes, which are
+ * transferred and must not be used afterwards. `args` name the input `inputName`.
+ * Fails with ffmpeg's error when the command does not write its output.
+ */
+export const transcode = (
+  input: string | Uint8Array,
+  inputName: string,
+  args: string[],
+  { outputName, duration, signal, onProgress }: TranscodeOptions = {}
+) => request<TranscodeResult>({
+  type: 'transcode',
+  input: typeof input === 'string' ? { key: input } : { data: input },
+  inputName,
+  args,
+  outputName: outputName ?? null,
+  duration: duration ?? null
+}, { signal, onProgress, transfer: typeof input === 'string' ? [] : [input.buffer] });
@@ -0,0 +1,74 @@
+import { parseISO, isValid } from 'date-fns';
+import { parseTimeString } from '@/utils/timeParser';
+import { formatWallClock } from '@/utils/timeFormat';
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR } from '@/utils/recordingTime';
+
+/**
+ * What a shared link points to, e.g.
+ * ?type=D&canal=canal7&date=2025-03-10&t=09:14:30&in=09:14:00&out=09:16:00&label=Flash
+ * Times are times of day on `date`; an OUT before the IN falls on the next day.
+ */
+export interface DeepLink {
+  typeInitial: string;
+  canal: string;
+  date: string; // yyyy-MM-dd
+  hour: string; // HH
+  position: number; // playhead, in seconds from the start of the hourly file
+  segment: { in: number; out: number; label: string } | null; // in seconds from midnight of `date`
+}
+
+// 09:14:30, or 09:14:30.250 when not on a whole second
+const formatLinkTime = (seconds: number) => formatWallClock(seconds, true).replace(/\.000$/, '');
+
+const parseLinkTime = (value: string | null) => {
+  if (!value) return NaN;
+  const seconds = parseTimeString(value, { fileStart: 0, preferWallClock: true });
+  return seconds >= 0 && seconds < SECONDS_PER_DAY ? seconds : NaN;
+};
+
+export const buildDeepLinkParams = (link: DeepLink) => {
+  const params = new URLSearchParams({
+    type: link.typeInitial,
+    canal: link.canal,
+    date: link.date,
+    t: formatLinkTime(parseInt(link.hour, 10) * SECONDS_PER_HOUR + link.position)
+  });
+
+  // Only segments that fit in one day from midnight can be written as times of day
+  const { segment } = link;
+  if (segment && segment.in >= 0 && segment.in < SECONDS_PER_DAY && segment.out > segment.in && segment.out - segment.in < SECONDS_PER_DAY) {
+    params.set('in', formatLinkTime(segment.in));
+    params.set('out', formatLinkTime(segment.out % SECONDS_PER_DAY));
+    if (segment.label) params.set('label', segment.label);
+  }
+
+  return params;
+};
+
+// Reads a link, or returns null when it does not point to a recording
+export const parseDeepLink = (params: URLSearchParams): DeepLink | null => {
+  const canal = params.get('canal');
+  const date = params.get('date');
+  if (!canal || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) return null;
+
+  // The playhead gives the hour; a bare hour opens its start
+  let time = parseLinkTime(params.get('t'));
+  if (isNaN(time)) {
+    const hour = parseInt(params.get('hour') ?? '', 10);
+    if (isNaN(hour) || hour < 0 || hour > 23) return null;
+    time = hour * SECONDS_PER_HOUR;
+  }
+
+  const start = parseLinkTime(params.get('in'));
+  let end = parseLinkTime(params.get('out'));
+  if (end <= start) end += SECONDS_PER_DAY;
+
+  return {
+    typeInitial: params.get('type') ?? 'D',
+    canal,
+    date,
+    hour: Math.floor(time / SECONDS_PER_HOUR).toString().padStart(2, '0'),
+    position: time % SECONDS_PER_HOUR,
+    segment: isNaN(start) || isNaN(end) ? null : { in: start, out: end, label: params.get('label') ?? '' }
+  };
+};
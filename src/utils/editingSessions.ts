@@ -0,0 +1,84 @@
+import type { AudioSegment, RecordingSource } from '@/hooks/useAudioTypes';
+
+/**
+ * Editing work saved per recording in IndexedDB, so that it survives switching files and
+ * reloading the page: segments (with their markers and notes), the selected one and the playhead.
+ * Logger recordings are keyed by channel, day and hour, local files by a hash of their content.
+ */
+export interface EditingSession {
+  key: string;
+  title: string; // shown in the list of work in progress
+  recording: Pick<RecordingSource, 'canal' | 'date' | 'hour' | 'typeInitial'> | null; // null for local files
+  segments: AudioSegment[]; // those lying in the recording, bounds as in the segment list
+  selectedSegmentId: string | null;
+  position: number; // playhead, in seconds in the file
+  updatedAt: number; // ms since the epoch
+}
+
+const DB_NAME = 'piges';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// Bytes read at each end of a local file to identify it
+const HASH_SAMPLE_BYTES = 1024 * 1024;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Try again next time, e.g. once the user allows storage
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+};
+
+// Runs a request on the session store and resolves to its result
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getSession = async (key: string) =>
+  (await runRequest<EditingSession | undefined>('readonly', (store) => store.get(key))) ?? null;
+
+export const saveSession = (session: EditingSession) =>
+  runRequest('readwrite', (store) => store.put(session)).then(() => undefined);
+
+export const deleteSession = (key: string) =>
+  runRequest('readwrite', (store) => store.delete(key)).then(() => undefined);
+
+// Most recently edited first
+export const listSessions = async () =>
+  (await runRequest<EditingSession[]>('readonly', (store) => store.getAll()))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+/**
+ * Identifies a local file by a SHA-256 of its size and of its first and last megabyte, which
+ * is quick even for an hour of audio. Falls back to its name, size and date outside secure contexts.
+ */
+export const hashLocalFile = async (file: File) => {
+  if (!crypto.subtle) return `${file.name}:${file.size}:${file.lastModified}`;
+
+  const head = new Uint8Array(await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer());
+  const tail = new Uint8Array(await file.slice(Math.max(HASH_SAMPLE_BYTES, file.size - HASH_SAMPLE_BYTES)).arrayBuffer());
+  const size = new TextEncoder().encode(String(file.size));
+  const data = new Uint8Array(size.length + head.length + tail.length);
+  data.set(size);
+  data.set(head, size.length);
+  data.set(tail, size.length + head.length);
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
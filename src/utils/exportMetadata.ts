@@ -0,0 +1,123 @@
+import { ExportFormat } from '@/utils/exportOptions';
+
+/**
+ * What an exported clip carries about itself, written as tags and in the optional JSON sidecar.
+ */
+export interface ClipMetadata {
+  title: string;
+  channel: string | null; // display name of the canal
+  canal: string | null; // folder name of the canal
+  type: string | null; // Départs or Retours
+  date: string | null; // recording date, yyyy-MM-dd
+  start: string | null; // absolute in time, "2025-03-10 09:14:00.000"
+  end: string | null; // absolute out time
+  exportedBy: string | null;
+  exportedAt: string; // ISO 8601
+  notes: string;
+  sources: string[]; // recordings the clip was cut from
+}
+
+// Logged-in user name, as stored at login
+export const getCurrentUser = () => localStorage.getItem('currentUser');
+
+// Tags written in the clips, by ffmpeg key
+const getTags = (metadata: ClipMetadata): Record<string, string | null> => ({
+  title: metadata.title,
+  artist: metadata.channel,
+  album: metadata.type,
+  date: metadata.date,
+  comment: metadata.notes || null,
+  canal: metadata.canal,
+  start_time: metadata.start,
+  end_time: metadata.end,
+  exported_by: metadata.exportedBy
+});
+
+/**
+ * ffmpeg arguments writing the metadata as tags, replacing those of the recordings.
+ * MP3 gets ID3v2.3 tags, where the keys without a standard frame become TXXX frames;
+ * M4A needs a flag to keep them, WAV only keeps the standard ones.
+ */
+export const getMetadataArgs = (metadata: ClipMetadata, format: ExportFormat) => {
+  const args = ['-map_metadata', '-1'];
+  Object.entries(getTags(metadata)).forEach(([key, value]) => {
+    if (value) args.push('-metadata', `${key}=${value}`);
+  });
+
+  if (format === 'mp3') args.push('-id3v2_version', '3');
+  if (format === 'm4a') args.push('-movflags', 'use_metadata_tags');
+  return args;
+};
+
+// ID3v2.3 frames of the ffmpeg keys that have one
+const ID3_FRAMES: Record<string, string> = { title: 'TIT2', artist: 'TPE1', album: 'TALB' };
+
+// Text as ID3v2.3 stores it: UTF-16 with a byte order mark, as the version has no UTF-8
+const encodeUtf16 = (text: string) => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+  }
+  return bytes;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+const createId3Frame = (id: string, body: Uint8Array) => {
+  const header = new Uint8Array(10);
+  new TextEncoder().encodeInto(id, header);
+  new DataView(header.buffer).setUint32(4, body.length);
+  return concatBytes([header, body]);
+};
+
+const UTF16 = Uint8Array.of(1);
+const UTF16_TERMINATOR = Uint8Array.of(0, 0);
+
+/**
+ * The same tags as getMetadataArgs gives ffmpeg for MP3, as an ID3v2.3 tag to put in front of
+ * MP3 frames cut without ffmpeg.
+ */
+export const createId3Tag = (metadata: ClipMetadata) => {
+  const frames: Uint8Array[] = [];
+  Object.entries(getTags(metadata)).forEach(([key, value]) => {
+    if (!value) return;
+
+    if (ID3_FRAMES[key]) {
+      frames.push(createId3Frame(ID3_FRAMES[key], concatBytes([UTF16, encodeUtf16(value)])));
+    } else if (key === 'date') {
+      // yyyy-MM-dd: ID3v2.3 has the year, and the day and month as DDMM
+      const [year, month, day] = value.split('-');
+      frames.push(createId3Frame('TYER', concatBytes([UTF16, encodeUtf16(year)])));
+      if (month && day) frames.push(createId3Frame('TDAT', concatBytes([UTF16, encodeUtf16(`${day}${month}`)])));
+    } else if (key === 'comment') {
+      frames.push(createId3Frame('COMM', concatBytes([UTF16, new TextEncoder().encode('fra'), encodeUtf16(''), UTF16_TERMINATOR, encodeUtf16(value)])));
+    } else {
+      frames.push(createId3Frame('TXXX', concatBytes([UTF16, encodeUtf16(key), UTF16_TERMINATOR, encodeUtf16(value)])));
+    }
+  });
+
+  const body = concatBytes(frames);
+  // The tag size is a synchsafe integer: 7 bits per byte
+  const header = Uint8Array.of(
+    0x49, 0x44, 0x33, 3, 0, 0,
+    (body.length >> 21) & 0x7f, (body.length >> 14) & 0x7f, (body.length >> 7) & 0x7f, body.length & 0x7f
+  );
+  return concatBytes([header, body]);
+};
+
+// "clip.mp3" → "clip.json"
+export const getSidecarFileName = (fileName: string) => `${fileName.replace(/\.[^/.]+$/, '')}.json`;
+
+export const createSidecar = (metadata: ClipMetadata) =>
+  new TextEncoder().encode(JSON.stringify(metadata, null, 2));
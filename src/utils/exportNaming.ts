@@ -0,0 +1,38 @@
+import { formatWallClock } from '@/utils/timeFormat';
+
+// Tokens available in the export file name template
+export const EXPORT_FILENAME_TOKENS = ['type', 'canal', 'date', 'hour', 'in', 'out', 'label', 'index', 'source'] as const;
+
+export type ExportFileNameToken = typeof EXPORT_FILENAME_TOKENS[number];
+
+export const DEFAULT_EXPORT_FILENAME_TEMPLATE = '{type}_{canal}_{date}_{in}-{out}_{label}';
+
+// 14h32m10s, for file names
+export const formatFileNameTime = (seconds: number) => {
+  const [hours, minutes, secs] = formatWallClock(seconds).split(':');
+  return `${hours}h${minutes}m${secs}s`;
+};
+
+// Characters that are not allowed in file names on Windows shares
+const sanitize = (value: string) => value.replace(/[\\/:*?"<>|]/g, '-').replace(/\s+/g, '_');
+
+/**
+ * Fills a template such as "{type}_{canal}_{date}_{in}-{out}_{label}".
+ * Unknown tokens are left untouched, empty ones are dropped with their separator.
+ */
+export const formatExportFileName = (
+  template: string,
+  values: Partial<Record<ExportFileNameToken, string | number>>,
+  extension = 'mp3'
+) => {
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => {
+      if (!(EXPORT_FILENAME_TOKENS as readonly string[]).includes(token)) return match;
+      const value = values[token as ExportFileNameToken];
+      return value === undefined ? '' : sanitize(String(value));
+    })
+    .replace(/([_-]){2,}/g, '$1')
+    .replace(/^[_-]+|[_-]+$/g, '');
+
+  return `${name || 'export'}.${extension}`;
+};
@@ -0,0 +1,167 @@
+import { getCurrentUser } from './exportMetadata';
+
+export type ExportFormat = 'mp3' | 'wav' | 'flac' | 'opus' | 'm4a';
+export type ExportChannels = 'source' | 'mono' | 'stereo';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  bitrate: number | null; // in kbps, null keeps the source bitrate (MP3 only)
+  sampleRate: number | null; // in Hz, null keeps the source sample rate
+  channels: ExportChannels;
+  precise: boolean; // re-encode MP3 so the cut falls on the exact sample instead of a frame boundary
+  fadeIn: number; // in seconds, 0 for none
+  fadeOut: number; // in seconds, 0 for none
+  normalize: boolean; // EBU R128 loudness normalization, in two passes
+  targetLoudness: number; // in LUFS
+  truePeak: number; // ceiling, in dBTP
+  sidecar: boolean; // also deliver the clip's metadata as a JSON file
+}
+
+// Stream properties of the recording the clip is cut from
+export interface ExportSource {
+  bitrate: number; // in kbps
+  sampleRate: number;
+}
+
+// Named options defined by the administrators
+export interface ExportPreset {
+  name: string;
+  options: ExportOptions;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string; hasBitrate: boolean; defaultBitrate: number }> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', hasBitrate: true, defaultBitrate: 192 },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', hasBitrate: false, defaultBitrate: 0 },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', hasBitrate: false, defaultBitrate: 0 },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', hasBitrate: true, defaultBitrate: 96 },
+  m4a: { label: 'AAC (M4A)', extension: 'm4a', mimeType: 'audio/mp4', hasBitrate: true, defaultBitrate: 128 }
+};
+
+export const EXPORT_BITRATES = [32, 48, 64, 96, 128, 160, 192, 256, 320];
+export const EXPORT_SAMPLE_RATES = [8000, 16000, 22050, 32000, 44100, 48000];
+
+// libopus only encodes at these rates
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+// Sample rates that can be chosen for a format
+export const getExportSampleRates = (format: ExportFormat) =>
+  format === 'opus' ? OPUS_SAMPLE_RATES : EXPORT_SAMPLE_RATES;
+
+// A rate the format's encoder accepts: Opus takes the next supported rate up, e.g. from presets made for another format
+const getEncoderSampleRate = (format: ExportFormat, sampleRate: number) => {
+  if (format !== 'opus' || OPUS_SAMPLE_RATES.includes(sampleRate)) return sampleRate;
+  return OPUS_SAMPLE_RATES.find((rate) => rate >= sampleRate) ?? OPUS_SAMPLE_RATES[OPUS_SAMPLE_RATES.length - 1];
+};
+
+// Same audio as the recordings: cut without re-encoding
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'mp3',
+  bitrate: null,
+  sampleRate: null,
+  channels: 'source',
+  precise: false,
+  fadeIn: 0,
+  fadeOut: 0,
+  normalize: false,
+  targetLoudness: -23,
+  truePeak: -1,
+  sidecar: false
+};
+
+// Presets and saved options may predate some of the options
+export const withExportDefaults = (options: Partial<ExportOptions>): ExportOptions => ({ ...DEFAULT_EXPORT_OPTIONS, ...options });
+
+export const isSameExportOptions = (a: Partial<ExportOptions>, b: Partial<ExportOptions>) => {
+  const first = withExportDefaults(a);
+  const second = withExportDefaults(b);
+  return (Object.keys(DEFAULT_EXPORT_OPTIONS) as (keyof ExportOptions)[]).every((key) => first[key] === second[key]);
+};
+
+// Whether the clip is filtered, which requires decoding it
+export const hasAudioFilters = (options: ExportOptions) =>
+  options.fadeIn > 0 || options.fadeOut > 0 || options.normalize;
+
+// Whether the cut can copy the MP3 frames as they are
+export const isStreamCopy = (options: ExportOptions) =>
+  options.format === 'mp3' && !options.precise && !hasAudioFilters(options) &&
+  options.bitrate === null && options.sampleRate === null && options.channels === 'source';
+
+/**
+ * Output arguments of the ffmpeg command for the given options.
+ * A re-encoded MP3 without a chosen bitrate keeps the source bitrate when it is known,
+ * and a normalized clip keeps the source sample rate, since loudnorm works at 192 kHz;
+ * in Opus it gets 48 kHz, the rate libopus works at.
+ */
+export const getExportCodecArgs = (options: ExportOptions, source: ExportSource | null = null) => {
+  if (isStreamCopy(options)) return ['-c', 'copy'];
+
+  const { format } = options;
+  const defaultBitrate = format === 'mp3' && source ? source.bitrate : EXPORT_FORMATS[format].defaultBitrate;
+  const bitrate = `${options.bitrate ?? defaultBitrate}k`;
+  const args =
+    format === 'mp3' ? ['-c:a', 'libmp3lame', '-b:a', bitrate] :
+    format === 'opus' ? ['-c:a', 'libopus', '-b:a', bitrate] :
+    format === 'm4a' ? ['-c:a', 'aac', '-b:a', bitrate] :
+    format === 'flac' ? ['-c:a', 'flac'] :
+    ['-c:a', 'pcm_s16le'];
+
+  const normalizedRate = format === 'opus' ? 48000 : source?.sampleRate ?? 48000;
+  const sampleRate = options.sampleRate ?? (options.normalize ? normalizedRate : null);
+  if (sampleRate) args.push('-ar', getEncoderSampleRate(format, sampleRate).toString());
+  if (options.channels !== 'source') args.push('-ac', options.channels === 'mono' ? '1' : '2');
+  return ['-vn', ...args];
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toLocaleString('fr-FR')} s`;
+const formatDecibels = (value: number) => value.toLocaleString('fr-FR');
+
+// "MP3 128 kbps, 44,1 kHz, mono"
+export const describeExportOptions = (options: ExportOptions) => {
+  const format = EXPORT_FORMATS[options.format];
+  const parts = [format.label];
+  if (isStreamCopy(options)) parts[0] = 'MP3 d\'origine (sans réencodage)';
+  else if (options.format === 'mp3' && options.bitrate === null) parts[0] += ' au débit d\'origine';
+  else if (format.hasBitrate) parts[0] += ` ${options.bitrate ?? format.defaultBitrate} kbps`;
+  if (options.sampleRate) parts.push(`${(options.sampleRate / 1000).toLocaleString('fr-FR')} kHz`);
+  if (options.channels !== 'source') parts.push(options.channels === 'mono' ? 'mono' : 'stéréo');
+  if (options.format === 'mp3' && options.precise) parts.push('coupe précise');
+  if (options.fadeIn > 0 || options.fadeOut > 0) {
+    parts.push(`fondus ${formatSeconds(options.fadeIn)} / ${formatSeconds(options.fadeOut)}`);
+  }
+  if (options.normalize) parts.push(`normalisé à ${formatDecibels(options.targetLoudness)} LUFS`);
+  if (options.sidecar) parts.push('avec fiche JSON');
+  return parts.join(', ');
+};
+
+export interface CutRange {
+  in: number;
+  out: number;
+}
+
+/**
+ * Bounds of the audio actually delivered for a re-encoded cut of [start, end], in seconds from
+ * the start of the source: exact to the sample. Stream copies report their own frame-aligned bounds.
+ */
+export const getDeliveredRange = (start: number, end: number, sampleRate: number | null): CutRange => {
+  const snap = (time: number) => (sampleRate ? Math.round(time * sampleRate) / sampleRate : time);
+  return { in: snap(start), out: snap(end) };
+};
+
+const getStorageKey = () => `exportOptions:${getCurrentUser() ?? 'default'}`;
+
+// Options last used by the logged-in user, falling back to the defaults
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(getStorageKey()) ?? 'null');
+    if (saved && Object.keys(EXPORT_FORMATS).includes(saved.format)) {
+      return withExportDefaults(saved);
+    }
+  } catch (error) {
+    console.error('Failed to parse saved export options:', error);
+  }
+  return DEFAULT_EXPORT_OPTIONS;
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(getStorageKey(), JSON.stringify(options));
+};
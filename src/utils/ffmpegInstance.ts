@@ -1,3 +0,0 @@
-import { createFFmpeg } from '@ffmpeg/ffmpeg';
-
-export const ffmpeg = createFFmpeg({ log: true });
\ No newline at end of file
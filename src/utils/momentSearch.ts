@@ -0,0 +1,141 @@
+import { format, isValid, parse, subDays } from 'date-fns';
+import { parseTimeString } from '@/utils/timeParser';
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR } from '@/utils/recordingTime';
+
+// A channel the search can resolve to, with the type folder it belongs to
+export interface MomentChannel {
+  folderName: string; // canal folder, e.g. "canal2"
+  displayName: string;
+  type: string; // type folder, e.g. "Départs"
+  typeInitial: string;
+}
+
+export interface Moment {
+  channel: MomentChannel;
+  date: string; // yyyy-MM-dd
+  seconds: number; // from midnight
+}
+
+export class MomentSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MomentSearchError';
+  }
+}
+
+const WEEKDAYS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
+const RELATIVE_DAYS = new Map([["aujourd'hui", 0], ['hier', 1], ['avant-hier', 2]]);
+const TYPE_WORDS = new Map([['depart', 'D'], ['departs', 'D'], ['retour', 'R'], ['retours', 'R']]);
+const DATE_FORMATS: [RegExp, string][] = [
+  [/^\d{4}-\d{2}-\d{2}$/, 'yyyy-MM-dd'],
+  [/^\d{1,2}\/\d{1,2}\/\d{4}$/, 'd/M/yyyy'],
+  [/^\d{1,2}\/\d{1,2}$/, 'd/M']
+];
+const FILLER_WORDS = ['a', 'le', 'du', 'de', 'vers', 'sur'];
+
+// Lower case without accents, so that "Départs" and "départ" match
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[’`]/g, "'");
+
+// "Trefflean-Questembert" and "trefflean questembert" are the same channel
+const normalizeName = (text: string) => normalize(text).replace(/[-_\s]+/g, ' ').trim();
+
+const parseDate = (token: string, now: Date): string | null => {
+  const daysAgo = RELATIVE_DAYS.get(token);
+  if (daysAgo !== undefined) return format(subDays(now, daysAgo), 'yyyy-MM-dd');
+
+  // Last occurrence of a weekday, today included
+  const weekday = WEEKDAYS.indexOf(token);
+  if (weekday !== -1) return format(subDays(now, (now.getDay() - weekday + 7) % 7), 'yyyy-MM-dd');
+
+  const pattern = DATE_FORMATS.find(([shape]) => shape.test(token))?.[1];
+  if (!pattern) return null;
+  const date = parse(token, pattern, now);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+};
+
+// Times of day only: "14:32:10", "14:32", "8h15", "8h"
+const parseTime = (token: string): number | null => {
+  if (!/\d/.test(token) || !/[:h]/.test(token)) return null;
+  const seconds = parseTimeString(token, { fileStart: 0, preferWallClock: true });
+  return !isNaN(seconds) && seconds >= 0 && seconds < SECONDS_PER_DAY ? seconds : null;
+};
+
+const findChannel = (name: string, typeInitial: string | null, channels: MomentChannel[], fallback: MomentChannel | null) => {
+  const candidates = typeInitial ? channels.filter((channel) => channel.typeInitial === typeInitial) : channels;
+  if (!name) {
+    if (fallback && (!typeInitial || fallback.typeInitial === typeInitial)) return fallback;
+    throw new MomentSearchError('Indiquez une ville ou un canal');
+  }
+
+  const matches = [
+    (channel: MomentChannel) => normalize(channel.folderName) === name.replace(/\s/g, ''),
+    (channel: MomentChannel) => normalizeName(channel.displayName) === name,
+    (channel: MomentChannel) => normalizeName(channel.displayName).split(' ').includes(name),
+    (channel: MomentChannel) => normalizeName(channel.displayName).includes(name)
+  ];
+
+  for (const match of matches) {
+    const found = candidates.filter(match);
+    if (found.length === 0) continue;
+    // A city present in both types: keep the type being browsed
+    return found.find((channel) => channel.type === fallback?.type) ?? found[0];
+  }
+  throw new MomentSearchError(`Aucun canal ne correspond à « ${name} »`);
+};
+
+/**
+ * Reads a channel and a moment typed in one go, e.g. "Redon 2025-03-10 14:32:10",
+ * "retour Guer hier 8h15" or "canal7 lundi 09:14". Without a channel, the one being
+ * browsed is used; without a date, today.
+ */
+export const parseMoment = (
+  input: string,
+  channels: MomentChannel[],
+  current: MomentChannel | null = null,
+  now = new Date()
+): Moment => {
+  const tokens = normalize(input).replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+
+  let date: string | null = null;
+  let seconds: number | null = null;
+  let typeInitial: string | null = null;
+  const nameParts: string[] = [];
+
+  for (const token of tokens) {
+    const tokenDate = date === null ? parseDate(token, now) : null;
+    if (tokenDate !== null) {
+      date = tokenDate;
+      continue;
+    }
+    const tokenTime = seconds === null ? parseTime(token) : null;
+    if (tokenTime !== null) {
+      seconds = tokenTime;
+      continue;
+    }
+    if (TYPE_WORDS.has(token) && nameParts.length === 0) {
+      typeInitial = TYPE_WORDS.get(token)!;
+      continue;
+    }
+    if (!FILLER_WORDS.includes(token)) nameParts.push(token);
+  }
+
+  if (seconds === null) {
+    throw new MomentSearchError('Indiquez une heure, par exemple 14:32:10 ou 8h15');
+  }
+
+  const channel = findChannel(normalizeName(nameParts.join(' ')), typeInitial, channels, current);
+  date ??= format(now, 'yyyy-MM-dd');
+
+  if (new Date(`${date}T00:00:00`).getTime() + seconds * 1000 > now.getTime()) {
+    throw new MomentSearchError('Ce moment n\'a pas encore été enregistré');
+  }
+
+  return { channel, date, seconds };
+};
+
+// Hourly file holding a moment and the position in it
+export const getMomentRecording = (moment: Moment) => ({
+  hour: Math.floor(moment.seconds / SECONDS_PER_HOUR).toString().padStart(2, '0'),
+  offset: moment.seconds % SECONDS_PER_HOUR
+});
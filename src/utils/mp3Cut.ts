@@ -0,0 +1,70 @@
+import { findFrameSync, getId3v2Size, isVbrHeaderFrame, parseFrameHeader } from './mp3Parser';
+
+export interface Mp3CutSource {
+  bytes: Uint8Array;
+  offset: number; // start of the file, in the cut's time reference
+}
+
+export interface Mp3Cut {
+  chunks: Uint8Array[]; // frames of each source that fall in the cut, in order
+  in: number; // start of the first frame kept
+  out: number; // end of the last frame kept
+}
+
+/**
+ * Cuts consecutive MP3 files without re-encoding, like `ffmpeg -c copy` does: frames starting
+ * at or after `start` and before `end` are kept, so the cut falls on frame boundaries.
+ * Throws when a file holds no MP3 frame.
+ */
+export const cutMp3Frames = (sources: Mp3CutSource[], start: number, end: number): Mp3Cut => {
+  const chunks: Uint8Array[] = [];
+  let first: number | null = null;
+  let last: number | null = null;
+
+  for (const { bytes, offset } of sources) {
+    let position = findFrameSync(bytes, getId3v2Size(bytes));
+    if (position < 0) throw new Error('Fichier MP3 illisible');
+
+    let time = offset;
+    let chunkStart = -1;
+    let chunkEnd = -1;
+    let checkedFirstFrame = false;
+
+    while (position + 4 <= bytes.length && time < end - 1e-6) {
+      const header = parseFrameHeader(bytes, position);
+      if (!header) {
+        // Damaged data: skip to the next frame
+        position = findFrameSync(bytes, position + 1);
+        if (position < 0) break;
+        continue;
+      }
+      if (position + header.frameLength > bytes.length) break;
+
+      // The Xing/Info frame of each file carries no audio
+      if (!checkedFirstFrame) {
+        checkedFirstFrame = true;
+        if (isVbrHeaderFrame(bytes, position, header)) {
+          position += header.frameLength;
+          continue;
+        }
+      }
+
+      const duration = header.samplesPerFrame / header.sampleRate;
+      // A frame starting a hair off a bound is rounding, not another frame
+      if (time >= start - 1e-6) {
+        if (chunkStart < 0) chunkStart = position;
+        chunkEnd = position + header.frameLength;
+        first ??= time;
+        last = time + duration;
+      }
+
+      position += header.frameLength;
+      time += duration;
+    }
+
+    if (chunkStart >= 0) chunks.push(bytes.subarray(chunkStart, chunkEnd));
+  }
+
+  if (first === null || last === null) throw new Error('Aucune trame MP3 dans l\'intervalle demandé');
+  return { chunks, in: first, out: last };
+};
@@ -0,0 +1,247 @@
+/**
+ * Minimal MPEG audio (MP3) header parser.
+ * Works on raw bytes so it can be shared by the browser and the recording server.
+ */
+
+export type MpegVersion = 1 | 2 | 2.5;
+
+export interface Mp3FrameHeader {
+  version: MpegVersion;
+  layer: 1 | 2 | 3;
+  bitrate: number; // in kbps
+  sampleRate: number;
+  padding: boolean;
+  channels: 1 | 2;
+  frameLength: number; // in bytes, header included
+  samplesPerFrame: number;
+}
+
+export interface Mp3Info {
+  audioStart: number; // byte offset of the first audio frame
+  audioEnd: number; // byte offset after the last audio frame (ID3v1 excluded)
+  header: Mp3FrameHeader;
+  frameCount: number | null; // from the Xing/VBRI header when present
+  vbr: boolean;
+  toc: number[] | null; // Xing table of contents (100 entries, 0-255)
+  encoderDelay: number | null; // samples added in front of the audio, from the LAME tag
+  bitrate: number; // average bitrate in kbps
+  duration: number; // in seconds
+}
+
+const BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const SAMPLE_RATES: Record<string, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000],
+};
+
+/**
+ * Parses the 4-byte frame header at the given offset, or returns null if it is not a valid header.
+ */
+export function parseFrameHeader(bytes: Uint8Array, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+
+  const b1 = bytes[offset + 1];
+  const b2 = bytes[offset + 2];
+  const b3 = bytes[offset + 3];
+
+  if (bytes[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version: MpegVersion = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[String(version)][sampleRateIndex];
+  const padding = ((b2 >> 1) & 0x01) === 1;
+  const channels = (b3 >> 6) === 3 ? 1 : 2;
+
+  let samplesPerFrame: number;
+  let frameLength: number;
+  if (layer === 1) {
+    samplesPerFrame = 384;
+    frameLength = (Math.floor((12 * bitrate * 1000) / sampleRate) + (padding ? 1 : 0)) * 4;
+  } else {
+    samplesPerFrame = layer === 3 && version !== 1 ? 576 : 1152;
+    frameLength = Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + (padding ? 1 : 0);
+  }
+
+  return { version, layer, bitrate, sampleRate, padding, channels, frameLength, samplesPerFrame };
+}
+
+/**
+ * Returns the total size of a leading ID3v2 tag (header and footer included), or 0 if there is none.
+ */
+export function getId3v2Size(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+
+  // Tag size is a 28-bit "syncsafe" integer
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Finds the next frame sync from the given offset. When the following frame fits in the buffer,
+ * it must also be valid, which rules out false syncs inside tags or audio data.
+ */
+export function findFrameSync(bytes: Uint8Array, from = 0): number {
+  for (let i = from; i < bytes.length - 4; i++) {
+    if (bytes[i] !== 0xff) continue;
+
+    const header = parseFrameHeader(bytes, i);
+    if (!header) continue;
+
+    const next = i + header.frameLength;
+    if (next + 4 > bytes.length || parseFrameHeader(bytes, next)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const matchesTag = (bytes: Uint8Array, offset: number, tag: string) =>
+  tag.split('').every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+/**
+ * Byte offset of the Xing/Info header inside the first frame (it sits right after the side information).
+ */
+const getXingOffset = (header: Mp3FrameHeader) => {
+  if (header.version === 1) return header.channels === 1 ? 21 : 36;
+  return header.channels === 1 ? 13 : 21;
+};
+
+/**
+ * Tells whether the frame at the given offset only holds a Xing, Info or VBRI header, not audio.
+ */
+export function isVbrHeaderFrame(bytes: Uint8Array, offset: number, header: Mp3FrameHeader): boolean {
+  const xingOffset = offset + getXingOffset(header);
+  return matchesTag(bytes, xingOffset, 'Xing') || matchesTag(bytes, xingOffset, 'Info') || matchesTag(bytes, offset + 36, 'VBRI');
+}
+
+/**
+ * Extracts stream information from the beginning of an MP3 file.
+ *
+ * @param head The first bytes of the file (64 KB is plenty, unless the ID3v2 tag embeds artwork)
+ * @param fileSize The total size of the file in bytes
+ * @param tail The last 128 bytes of the file, used to detect an ID3v1 tag
+ */
+export function parseMp3Info(head: Uint8Array, fileSize: number, tail?: Uint8Array): Mp3Info | null {
+  const audioStart = findFrameSync(head, getId3v2Size(head));
+  if (audioStart < 0) return null;
+
+  const header = parseFrameHeader(head, audioStart);
+  if (!header) return null;
+
+  const hasId3v1 = !!tail && tail.length >= 128 && matchesTag(tail, tail.length - 128, 'TAG');
+  const audioEnd = fileSize - (hasId3v1 ? 128 : 0);
+
+  let frameCount: number | null = null;
+  let streamBytes: number | null = null;
+  let toc: number[] | null = null;
+  let encoderDelay: number | null = null;
+  let vbr = false;
+
+  const xingOffset = audioStart + getXingOffset(header);
+  const vbriOffset = audioStart + 36;
+
+  if (matchesTag(head, xingOffset, 'Xing') || matchesTag(head, xingOffset, 'Info')) {
+    vbr = matchesTag(head, xingOffset, 'Xing');
+    const flags = readUint32(head, xingOffset + 4);
+    let cursor = xingOffset + 8;
+
+    if (flags & 0x01) {
+      frameCount = readUint32(head, cursor);
+      cursor += 4;
+    }
+    if (flags & 0x02) {
+      streamBytes = readUint32(head, cursor);
+      cursor += 4;
+    }
+    if (flags & 0x04) {
+      toc = Array.from(head.subarray(cursor, cursor + 100));
+      cursor += 100;
+    }
+    if (flags & 0x08) {
+      cursor += 4;
+    }
+
+    // The LAME tag (also written by ffmpeg) follows, with the encoder delay on 12 bits at byte 21
+    if (['LAME', 'Lavf', 'Lavc'].some((tag) => matchesTag(head, cursor, tag)) && cursor + 23 <= head.length) {
+      encoderDelay = (head[cursor + 21] << 4) | (head[cursor + 22] >> 4);
+    }
+  } else if (matchesTag(head, vbriOffset, 'VBRI')) {
+    vbr = true;
+    streamBytes = readUint32(head, vbriOffset + 10);
+    frameCount = readUint32(head, vbriOffset + 14);
+  }
+
+  let duration: number;
+  let bitrate: number;
+
+  if (frameCount) {
+    duration = (frameCount * header.samplesPerFrame) / header.sampleRate;
+    const bytes = streamBytes ?? audioEnd - audioStart;
+    bitrate = duration > 0 ? (bytes * 8) / duration / 1000 : header.bitrate;
+  } else {
+    // No VBR header: assume a constant bitrate stream
+    bitrate = header.bitrate;
+    duration = ((audioEnd - audioStart) * 8) / (bitrate * 1000);
+  }
+
+  return { audioStart, audioEnd, header, frameCount, vbr, toc, encoderDelay, bitrate, duration };
+}
+
+/**
+ * Tells whether a Layer III frame carries no spectral data (big_values is 0 in every granule),
+ * which is how encoders write silence. Frames of other layers are never reported silent.
+ */
+export function isSilentFrame(bytes: Uint8Array, offset: number, header: Mp3FrameHeader): boolean {
+  if (header.layer !== 3) return false;
+
+  const mpeg1 = header.version === 1;
+  const hasCrc = (bytes[offset + 1] & 0x01) === 0;
+  const sideInfoLength = mpeg1 ? (header.channels === 1 ? 17 : 32) : (header.channels === 1 ? 9 : 17);
+  let bit = (offset + 4 + (hasCrc ? 2 : 0)) * 8;
+  if (bit / 8 + sideInfoLength > bytes.length) return false;
+
+  const skip = (count: number) => {
+    bit += count;
+  };
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bit++) {
+      value = (value << 1) | ((bytes[bit >> 3] >> (7 - (bit & 7))) & 0x01);
+    }
+    return value;
+  };
+
+  // main_data_begin, private bits and scfsi, then part2_3_length and big_values of each granule
+  skip(mpeg1 ? 9 + (header.channels === 1 ? 5 : 3) + 4 * header.channels : 8 + header.channels);
+  for (let granule = 0; granule < (mpeg1 ? 2 : 1); granule++) {
+    for (let channel = 0; channel < header.channels; channel++) {
+      skip(12);
+      if (read(9) > 0) return false;
+      skip(mpeg1 ? 38 : 42);
+    }
+  }
+  return true;
+}
@@ -0,0 +1,37 @@
+/**
+ * Byte offsets of regularly spaced frames of an MP3 recording, built once per file by the
+ * recording server. A time span can then be fetched with an HTTP Range request and placed to
+ * the frame, which the Xing table of contents (1 % steps, estimated) does not allow.
+ */
+export interface Mp3SeekIndex {
+  sampleRate: number;
+  samplesPerFrame: number;
+  frameCount: number; // audio frames, the Xing/Info frame excluded
+  encoderDelay: number | null; // samples added in front of the audio, from the LAME tag
+  step: number; // frames between two offsets
+  offsets: number[]; // byte offsets of frames 0, step, 2 × step...
+  end: number; // byte offset after the last frame
+}
+
+export interface SeekRange {
+  start: number; // byte offset of the first frame
+  end: number; // exclusive
+  time: number; // start of the first frame, in seconds from the start of the file
+}
+
+/**
+ * Bytes holding the frames that start between `start` and `end` (in seconds from the start of the file),
+ * beginning on a seek point.
+ */
+export const getSeekRange = (index: Mp3SeekIndex, start: number, end: number): SeekRange => {
+  const frameDuration = index.samplesPerFrame / index.sampleRate;
+  const last = index.offsets.length - 1;
+  const first = Math.min(last, Math.max(0, Math.floor(start / frameDuration / index.step)));
+  const next = Math.max(first + 1, Math.ceil(end / frameDuration / index.step));
+
+  return {
+    start: index.offsets[first],
+    end: next <= last ? index.offsets[next] : index.end,
+    time: first * index.step * frameDuration
+  };
+};
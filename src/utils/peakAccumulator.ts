@@ -0,0 +1,86 @@
+/**
+ * Min/max peak computation, shared by the waveform loader and the audio processing worker.
+ */
+
+/**
+ * Min/max peaks of a recording at one resolution.
+ * `data` is interleaved: [min0, max0, min1, max1, ...], values in [-1, 1].
+ */
+export interface PeakLevel {
+  samplesPerPeak: number;
+  data: Float32Array;
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  duration: number; // in seconds
+  levels: PeakLevel[]; // finest resolution first
+}
+
+const BASE_SAMPLES_PER_PEAK = 256;
+const LEVEL_FACTOR = 4;
+const LEVEL_COUNT = 5;
+
+/**
+ * Accumulates base-level peaks from decoded chunks placed at arbitrary sample offsets.
+ */
+export class PeakAccumulator {
+  private data: Float32Array;
+  private peakCount = 0;
+
+  constructor(estimatedSamples: number) {
+    this.data = new Float32Array(Math.max(2, Math.ceil(estimatedSamples / BASE_SAMPLES_PER_PEAK) * 2));
+  }
+
+  add(channels: Float32Array[], startSample: number, length: number) {
+    const lastPeak = Math.floor((startSample + length - 1) / BASE_SAMPLES_PER_PEAK);
+    this.ensureCapacity(lastPeak + 1);
+
+    for (const samples of channels) {
+      const count = Math.min(length, samples.length);
+      for (let i = 0; i < count; i++) {
+        const index = Math.floor((startSample + i) / BASE_SAMPLES_PER_PEAK) * 2;
+        const value = samples[i];
+        if (value < this.data[index]) this.data[index] = value;
+        if (value > this.data[index + 1]) this.data[index + 1] = value;
+      }
+    }
+
+    this.peakCount = Math.max(this.peakCount, lastPeak + 1);
+  }
+
+  finish(sampleRate: number, totalSamples: number): WaveformPeaks {
+    const peakCount = Math.max(this.peakCount, Math.ceil(totalSamples / BASE_SAMPLES_PER_PEAK));
+    this.ensureCapacity(peakCount);
+
+    const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, data: this.data.slice(0, peakCount * 2) }];
+
+    for (let level = 1; level < LEVEL_COUNT; level++) {
+      const previous = levels[level - 1];
+      const count = Math.ceil(previous.data.length / 2 / LEVEL_FACTOR);
+      const data = new Float32Array(count * 2);
+
+      for (let i = 0; i < count; i++) {
+        let min = 0;
+        let max = 0;
+        for (let j = i * LEVEL_FACTOR; j < Math.min((i + 1) * LEVEL_FACTOR, previous.data.length / 2); j++) {
+          min = Math.min(min, previous.data[j * 2]);
+          max = Math.max(max, previous.data[j * 2 + 1]);
+        }
+        data[i * 2] = min;
+        data[i * 2 + 1] = max;
+      }
+
+      levels.push({ samplesPerPeak: previous.samplesPerPeak * LEVEL_FACTOR, data });
+    }
+
+    return { sampleRate, duration: totalSamples / sampleRate, levels };
+  }
+
+  private ensureCapacity(peaks: number) {
+    if (peaks * 2 <= this.data.length) return;
+    const grown = new Float32Array(Math.max(peaks * 2, this.data.length * 2));
+    grown.set(this.data);
+    this.data = grown;
+  }
+}
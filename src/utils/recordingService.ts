@@ -0,0 +1,86 @@
+import { format } from "date-fns";
+import { RecordingInfo } from "./recordingTypes";
+import { DayAvailability } from "./recordingStatus";
+
+export type { RecordingCodecInfo, RecordingInfo } from "./recordingTypes";
+export type { DayAvailability, DayStatus, RecordingStatus } from "./recordingStatus";
+
+// Base URL of the recording index service (see server/index.ts)
+const API_BASE_URL = (import.meta.env.VITE_RECORDING_API_URL as string | undefined) ?? '/api';
+
+export class RecordingServiceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RecordingServiceError';
+    this.status = status;
+  }
+}
+
+const toDateFolder = (date: Date | string) =>
+  typeof date === 'string' ? date : format(date, 'yyyy-MM-dd');
+
+const requestJson = async <T>(path: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`);
+  } catch (error) {
+    throw new RecordingServiceError('Le service des enregistrements est injoignable', 0);
+  }
+
+  if (!response.ok) {
+    let message = `Erreur ${response.status}`;
+    try {
+      const body = await response.json();
+      if (body?.error) message = body.error;
+    } catch {
+      // Body is not JSON, keep the generic message
+    }
+    throw new RecordingServiceError(message, response.status);
+  }
+
+  return response.json() as Promise<T>;
+};
+
+// Absolute URL of an audio file served by the recording service
+export const getRecordingUrl = (canal: string, date: Date | string, hour: string): string =>
+  `${API_BASE_URL}/audio/${encodeURIComponent(canal)}/${toDateFolder(date)}/${hour}.mp3`;
+
+// Seek index of a recording, to fetch a time span of it (see utils/mp3SeekIndex.ts)
+export const getRecordingSeekIndexUrl = (canal: string, date: Date | string, hour: string): string =>
+  `${API_BASE_URL}/audio/${encodeURIComponent(canal)}/${toDateFolder(date)}/${hour}/frames`;
+
+// Lists the dates (yyyy-MM-dd) that have a recording folder for the given canal
+export const fetchRecordingDates = async (canal: string): Promise<string[]> => {
+  const { dates } = await requestJson<{ dates: string[] }>(`/channels/${encodeURIComponent(canal)}/dates`);
+  return dates;
+};
+
+// Lists the hourly recordings of a canal for a given day, sorted by hour
+export const fetchRecordings = async (canal: string, date: Date | string): Promise<RecordingInfo[]> => {
+  const { recordings } = await requestJson<{ recordings: Omit<RecordingInfo, 'url'>[] }>(
+    `/channels/${encodeURIComponent(canal)}/dates/${toDateFolder(date)}/recordings`
+  );
+
+  return recordings.map((recording) => ({
+    ...recording,
+    url: getRecordingUrl(recording.canal, recording.date, recording.hour),
+  }));
+};
+
+// Status of the recorded hours of each day of a canal between two dates (inclusive)
+export const fetchAvailability = async (canal: string, from: Date | string, to: Date | string): Promise<DayAvailability[]> => {
+  const { days } = await requestJson<{ days: DayAvailability[] }>(
+    `/channels/${encodeURIComponent(canal)}/availability?from=${toDateFolder(from)}&to=${toDateFolder(to)}`
+  );
+  return days;
+};
+
+// Formats a byte count for display, e.g. "137.4 MB"
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
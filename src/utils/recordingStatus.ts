@@ -0,0 +1,34 @@
+import type { RecordingInfo } from './recordingTypes';
+
+// Shared by the recording index server and its browser client
+
+export type RecordingStatus = 'present' | 'missing' | 'truncated' | 'silent';
+
+// Hours of a day that have a file, by status (absent hours are missing)
+export interface DayAvailability {
+  date: string; // yyyy-MM-dd
+  hours: Record<string, Exclude<RecordingStatus, 'missing'>>; // keyed by HH
+}
+
+const EXPECTED_DURATION = 3600;
+// Files a little short of an hour are not reported
+const TRUNCATION_TOLERANCE = 60;
+// Share of the sampled frames without audio above which the hour is considered silent
+const SILENCE_THRESHOLD = 0.9;
+
+export const getRecordingStatus = (recording: Pick<RecordingInfo, 'duration' | 'silence'> | null | undefined): RecordingStatus => {
+  if (!recording) return 'missing';
+  if (recording.silence !== null && recording.silence >= SILENCE_THRESHOLD) return 'silent';
+  if (recording.duration < EXPECTED_DURATION - TRUNCATION_TOLERANCE) return 'truncated';
+  return 'present';
+};
+
+export type DayStatus = 'complete' | 'partial' | 'missing';
+
+// Summary of a day from its first `expectedHours` hours (24, or the hours already over for today)
+export const getDayStatus = (hours: DayAvailability['hours'], expectedHours = 24): DayStatus => {
+  const statuses: RecordingStatus[] = Array.from({ length: expectedHours }, (_, hour) => hours[hour.toString().padStart(2, '0')] ?? 'missing');
+  if (statuses.every((status) => status === 'present')) return 'complete';
+  if (statuses.every((status) => status === 'missing')) return 'missing';
+  return 'partial';
+};
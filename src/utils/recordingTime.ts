@@ -0,0 +1,45 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+export const SECONDS_PER_HOUR = 3600;
+export const SECONDS_PER_DAY = 86400;
+
+export interface RecordingHour {
+  date: string; // yyyy-MM-dd
+  hour: string; // HH
+  offset: number; // seconds from the reference midnight to the start of the file
+}
+
+// Seconds from midnight of `originDate` to the start of an hourly recording
+export const getRecordingOffset = (recording: { date: string; hour: string }, originDate: string) =>
+  differenceInCalendarDays(parseISO(recording.date), parseISO(originDate)) * SECONDS_PER_DAY +
+  parseInt(recording.hour, 10) * SECONDS_PER_HOUR;
+
+// Date and time of day of a point given in seconds from midnight of `originDate`
+export const toDayTime = (originDate: string, seconds: number) => {
+  const days = Math.floor(seconds / SECONDS_PER_DAY);
+  return {
+    date: format(addDays(parseISO(originDate), days), 'yyyy-MM-dd'),
+    seconds: seconds - days * SECONDS_PER_DAY
+  };
+};
+
+/**
+ * Hourly recordings covering [start, end[, both in seconds from midnight of `originDate`.
+ * Ranges past 24:00 continue on the following days.
+ */
+export const getRecordingHours = (originDate: string, start: number, end: number): RecordingHour[] => {
+  const first = Math.floor(start / SECONDS_PER_HOUR);
+  const last = Math.max(first, Math.ceil(end / SECONDS_PER_HOUR) - 1);
+  const hours: RecordingHour[] = [];
+
+  for (let index = first; index <= last; index++) {
+    const { date, seconds } = toDayTime(originDate, index * SECONDS_PER_HOUR);
+    hours.push({
+      date,
+      hour: Math.round(seconds / SECONDS_PER_HOUR).toString().padStart(2, '0'),
+      offset: index * SECONDS_PER_HOUR
+    });
+  }
+
+  return hours;
+};
@@ -0,0 +1,24 @@
+// Types shared by the recording index server and its browser client
+
+export interface RecordingCodecInfo {
+  format: 'mp3';
+  version: string; // MPEG version, e.g. "MPEG-1"
+  layer: number;
+  bitrate: number; // average bitrate in kbps
+  sampleRate: number;
+  channels: number;
+  vbr: boolean;
+}
+
+export interface RecordingInfo {
+  canal: string;
+  date: string; // yyyy-MM-dd
+  hour: string; // HH
+  fileName: string;
+  size: number; // in bytes
+  duration: number; // in seconds
+  lastModified: string; // ISO 8601
+  codec: RecordingCodecInfo | null;
+  silence: number | null; // share of sampled frames without audio (0-1), null when unknown
+  url: string; // added by the client, the server does not know its public URL
+}
@@ -1,6 +1,8 @@
 
 import citiesConfig from "@/config/cities.json";
 import typesConfig from "@/config/types.json";
+import { DEFAULT_EXPORT_FILENAME_TEMPLATE } from "@/utils/exportNaming";
+import { ExportPreset, withExportDefaults } from "@/utils/exportOptions";
 
 export interface Settings {
   colorScheme: 'light' | 'dark' | 'auto';
@@ -12,6 +14,8 @@ export interface Settings {
     retours: CityFolder[];
   };
   audioFolderPath: string;
+  exportFileNameTemplate: string;
+  exportPresets: ExportPreset[];
   buttonColors: {
     primary: string;
     secondary: string;
@@ -33,6 +37,12 @@ const defaultSettings: Settings = {
   enableNotifications: true,
   cities: citiesConfig,
   audioFolderPath: '/audio',
+  exportFileNameTemplate: DEFAULT_EXPORT_FILENAME_TEMPLATE,
+  exportPresets: [
+    { name: 'Diffusion (WAV)', options: withExportDefaults({ format: 'wav', sampleRate: 48000, channels: 'stereo', normalize: true }) },
+    { name: 'Envoi par e-mail (MP3 mono)', options: withExportDefaults({ bitrate: 64, channels: 'mono', fadeIn: 0.5, fadeOut: 0.5 }) },
+    { name: 'Extrait juridique (coupe précise)', options: withExportDefaults({ precise: true }) }
+  ],
   buttonColors: {
     primary: '#1F4A4F',
     secondary: '#8F8F8F',
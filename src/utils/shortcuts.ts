@@ -0,0 +1,133 @@
+import { getCurrentUser } from './exportMetadata';
+
+export type ShortcutAction =
+  | 'playPause'
+  | 'shuttleBack'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'markIn'
+  | 'markOut'
+  | 'skipBack'
+  | 'skipForward'
+  | 'nudgeBack'
+  | 'nudgeForward'
+  | 'export'
+  | 'undo'
+  | 'redo'
+  | 'showHelp';
+
+// Keys as returned by getShortcutFromEvent, e.g. "Space", "J", "Shift+ArrowLeft", "?"
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutPreferences {
+  bindings: ShortcutBindings;
+  skipStep: number; // seconds skipped by the arrows and the player's skip buttons
+  nudgeStep: number; // seconds the selected marker moves by
+}
+
+// In the order of the cheat sheet
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  playPause: 'Lecture / pause',
+  shuttleBack: 'Shuttle arrière',
+  shuttleStop: 'Shuttle arrêt',
+  shuttleForward: 'Shuttle avant',
+  markIn: 'Marqueur début (IN)',
+  markOut: 'Marqueur fin (OUT)',
+  skipBack: 'Reculer',
+  skipForward: 'Avancer',
+  nudgeBack: 'Décaler le marqueur sélectionné vers la gauche',
+  nudgeForward: 'Décaler le marqueur sélectionné vers la droite',
+  export: 'Exporter la sélection',
+  undo: 'Annuler la dernière modification',
+  redo: 'Rétablir la modification annulée',
+  showHelp: 'Afficher les raccourcis'
+};
+
+export const DEFAULT_SHORTCUTS: ShortcutPreferences = {
+  bindings: {
+    playPause: 'Space',
+    shuttleBack: 'J',
+    shuttleStop: 'K',
+    shuttleForward: 'L',
+    markIn: 'I',
+    markOut: 'O',
+    skipBack: 'ArrowLeft',
+    skipForward: 'ArrowRight',
+    nudgeBack: 'Shift+ArrowLeft',
+    nudgeForward: 'Shift+ArrowRight',
+    export: 'E',
+    undo: 'Ctrl+Z',
+    redo: 'Ctrl+Shift+Z',
+    showHelp: '?'
+  },
+  skipStep: 10,
+  nudgeStep: 0.1
+};
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Espace',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Ctrl: 'Ctrl',
+  Alt: 'Alt',
+  Shift: 'Maj',
+  Meta: 'Cmd'
+};
+
+/**
+ * Shortcut of a key press, modifiers first, or null for a lone modifier.
+ * Letters are upper-cased; Shift is left out of symbols typed with it, such as "?".
+ */
+export const getShortcutFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const isSymbol = key.length === 1 && key.toLowerCase() === key.toUpperCase();
+  return [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && !isSymbol && 'Shift',
+    event.metaKey && 'Meta',
+    key
+  ].filter(Boolean).join('+');
+};
+
+// Shortcut as shown to the user, e.g. "Maj + ←"
+export const formatShortcut = (shortcut: string) => {
+  // The "+" key itself ends the shortcut
+  const parts = shortcut.endsWith('++') || shortcut === '+'
+    ? [...shortcut.slice(0, -2).split('+').filter(Boolean), '+']
+    : shortcut.split('+');
+  return parts.map((part) => KEY_LABELS[part] ?? part).join(' + ');
+};
+
+// Action bound to a shortcut
+export const findShortcutAction = (bindings: ShortcutBindings, shortcut: string) =>
+  (Object.keys(bindings) as ShortcutAction[]).find((action) => bindings[action] === shortcut) ?? null;
+
+const getStorageKey = () => `shortcuts:${getCurrentUser() ?? 'default'}`;
+
+// Shortcuts of the logged-in user, falling back to the defaults
+export const loadShortcutPreferences = (): ShortcutPreferences => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(getStorageKey()) ?? 'null');
+    if (saved) {
+      return {
+        bindings: { ...DEFAULT_SHORTCUTS.bindings, ...saved.bindings },
+        skipStep: saved.skipStep > 0 ? saved.skipStep : DEFAULT_SHORTCUTS.skipStep,
+        nudgeStep: saved.nudgeStep > 0 ? saved.nudgeStep : DEFAULT_SHORTCUTS.nudgeStep
+      };
+    }
+  } catch (error) {
+    console.error('Failed to parse saved shortcuts:', error);
+  }
+  return DEFAULT_SHORTCUTS;
+};
+
+export const saveShortcutPreferences = (preferences: ShortcutPreferences) => {
+  localStorage.setItem(getStorageKey(), JSON.stringify(preferences));
+};
@@ -0,0 +1,19 @@
+// Time of day: 14:32:10 (or 14:32:10.250 with milliseconds)
+export const formatWallClock = (seconds: number, withMillis = false) => {
+  const hours = Math.floor(seconds / 3600) % 24;
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const hms = [hours, minutes, secs].map((value) => value.toString().padStart(2, '0')).join(':');
+  return withMillis ? `${hms}.${Math.floor((seconds % 1) * 1000).toString().padStart(3, '0')}` : hms;
+};
+
+// Offset or duration: 05:12, 1:05:12 past an hour (or 05:12.250 with milliseconds)
+export const formatOffset = (seconds: number, withMillis = false) => {
+  const time = Math.max(0, seconds);
+  const hours = Math.floor(time / 3600);
+  const minutes = Math.floor((time % 3600) / 60);
+  const secs = Math.floor(time % 60);
+  const mmss = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const millis = withMillis ? `.${Math.floor((time % 1) * 1000).toString().padStart(3, '0')}` : '';
+  return hours > 0 ? `${hours}:${mmss}${millis}` : `${mmss}${millis}`;
+};
@@ -1,11 +1,52 @@
+export interface ParseTimeOptions {
+  fileStart?: number | null; // time of day at which the file starts, in seconds from midnight
+  preferWallClock?: boolean; // read "14:32:10" as a time of day rather than an offset
+}
+
+const NUMBER = /^\d+(?:\.\d+)?$/;
+const HOUR_NOTATION = /^(\d+)\s*h\s*(?:(\d+)\s*(?:min|m)?\s*)?(?:(\d+(?:\.\d+)?)\s*s?)?$/;
 
 /**
- * Parses a time string like "90", "1:30", or "00:01:30" into seconds.
+ * Parses a time string into seconds in the file.
+ * Offsets: "90", "1:30", "00:01:30" or "1:30.250". When the file start is known, times of day:
+ * "14:32:10" or "14:32" (with preferWallClock), "14h32", "14h32m10s". A leading "+" forces an offset,
+ * a leading "@" a time of day. Returns NaN when the input cannot be read.
  */
-export function parseTimeString(input: string): number {
-  const parts = input.trim().split(":").map(Number);
-  if (parts.length === 1) return parts[0] || 0;
-  if (parts.length === 2) return (parts[0] || 0) * 60 + (parts[1] || 0);
-  if (parts.length === 3) return (parts[0] || 0) * 3600 + (parts[1] || 0) * 60 + (parts[2] || 0);
-  return 0;
+export function parseTimeString(input: string, options: ParseTimeOptions = {}): number {
+  const { fileStart = null, preferWallClock = false } = options;
+
+  let text = input.trim().toLowerCase().replace(",", ".");
+  let wallClock: boolean | null = null;
+  if (text.startsWith("+")) {
+    wallClock = false;
+    text = text.slice(1).trim();
+  } else if (text.startsWith("@")) {
+    wallClock = true;
+    text = text.slice(1).trim();
+  }
+
+  let seconds: number;
+  const hourNotation = text.match(HOUR_NOTATION);
+
+  if (hourNotation) {
+    const [, hours, minutes = "0", secs = "0"] = hourNotation;
+    seconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(secs);
+    wallClock ??= true;
+  } else {
+    const parts = text.split(":");
+    if (parts.length > 3 || parts.some((part) => !NUMBER.test(part))) return NaN;
+
+    wallClock ??= preferWallClock && parts.length > 1;
+
+    // A time of day with two parts is hh:mm, an offset is mm:ss
+    const values = parts.map(Number);
+    if (wallClock && values.length === 2) values.push(0);
+    seconds = values.reduce((total, value) => total * 60 + value, 0);
+  }
+
+  if (!wallClock || fileStart === null) return seconds;
+
+  // A time of day before the file start most likely belongs to the next day (e.g. 00:05 in the 23h file)
+  const offset = seconds - fileStart;
+  return offset < -12 * 3600 ? offset + 24 * 3600 : offset;
 }
@@ -0,0 +1,204 @@
+import { findFrameSync, parseFrameHeader, parseMp3Info } from './mp3Parser';
+import { createPeakSession, fetchBytes, ProcessingError } from './audioProcessing';
+import type { PeakLevel, WaveformPeaks } from './peakAccumulator';
+
+export type { PeakLevel, WaveformPeaks } from './peakAccumulator';
+
+interface LoadOptions {
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+// Size of the byte ranges fetched and decoded at once (about 2 minutes of a 128 kbps MP3)
+const CHUNK_BYTES = 2 * 1024 * 1024;
+const FALLBACK_SAMPLE_RATE = 44100;
+const CACHE_SIZE = 12;
+
+const peaksCache = new Map<string, WaveformPeaks>();
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Waveform analysis aborted', 'AbortError');
+  }
+};
+
+const decodeBytes = async (bytes: Uint8Array, sampleRate: number): Promise<AudioBuffer> => {
+  // An offline context at the file's own rate decodes without resampling and needs no user gesture
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(bytes.slice().buffer);
+};
+
+interface ByteSource {
+  size: number | null;
+  read: (start: number, end: number) => Promise<Uint8Array>; // end is exclusive
+}
+
+/**
+ * Reads a URL through HTTP Range requests, or from memory if the server ignores them.
+ * The requests go through the audio processing worker.
+ */
+const openByteSource = async (url: string, signal?: AbortSignal): Promise<{ source: ByteSource; head: Uint8Array }> => {
+  const { data: head, status, size } = await fetchBytes(url, { start: 0, end: CHUNK_BYTES }, signal);
+
+  if (status !== 206) {
+    // Whole file received (blob URLs, servers without Range support)
+    return {
+      head,
+      source: { size: head.length, read: async (start, end) => head.subarray(start, end) },
+    };
+  }
+
+  return {
+    head,
+    source: {
+      size,
+      read: async (start, end) => (await fetchBytes(url, { start, end }, signal)).data,
+    },
+  };
+};
+
+/**
+ * Decodes an MP3 stream chunk by chunk, cutting on frame boundaries, so that a one-hour
+ * file never has to be held in memory as PCM.
+ */
+const analyseMp3 = async (
+  source: ByteSource,
+  head: Uint8Array,
+  size: number,
+  { onProgress, signal }: LoadOptions
+): Promise<WaveformPeaks | null> => {
+  const tail = size > head.length ? await source.read(size - 128, size) : head.subarray(Math.max(0, head.length - 128));
+  const info = parseMp3Info(head, size, tail);
+  if (!info) return null;
+
+  const { sampleRate, samplesPerFrame } = info.header;
+  const peaks = createPeakSession(info.duration * sampleRate);
+
+  try {
+    let pending = head.subarray(info.audioStart);
+    let pendingStart = info.audioStart;
+    let frameIndex = 0;
+
+    while (pendingStart < info.audioEnd) {
+      throwIfAborted(signal);
+
+      const loadedEnd = pendingStart + pending.length;
+      if (pending.length < CHUNK_BYTES && loadedEnd < info.audioEnd) {
+        const next = await source.read(loadedEnd, Math.min(loadedEnd + CHUNK_BYTES, info.audioEnd));
+        const merged = new Uint8Array(pending.length + next.length);
+        merged.set(pending);
+        merged.set(next, pending.length);
+        pending = merged;
+      }
+
+      const atEnd = pendingStart + pending.length >= info.audioEnd;
+      const available = Math.min(pending.length, info.audioEnd - pendingStart);
+
+      // Walk complete frames
+      let position = 0;
+      let frames = 0;
+      while (position + 4 <= available) {
+        const header = parseFrameHeader(pending, position);
+        if (!header) {
+          const resync = findFrameSync(pending.subarray(0, available), position + 1);
+          if (resync < 0) {
+            position = atEnd ? available : Math.max(position, available - 4);
+            break;
+          }
+          position = resync;
+          continue;
+        }
+        if (position + header.frameLength > available && !atEnd) break;
+        position += header.frameLength;
+        frames++;
+      }
+
+      if (frames > 0) {
+        try {
+          const decoded = await decodeBytes(pending.subarray(0, Math.min(position, available)), sampleRate);
+          // Copies, as the chunks are handed over to the worker
+          const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c).slice());
+          await peaks.add(channels, frameIndex * samplesPerFrame, Math.min(decoded.length, frames * samplesPerFrame));
+        } catch (error) {
+          if (error instanceof ProcessingError) throw error;
+          // A damaged chunk leaves a flat section rather than failing the whole file
+          console.warn("Could not decode waveform chunk at byte", pendingStart, error);
+        }
+        frameIndex += frames;
+      }
+
+      if (position === 0 && atEnd) break;
+
+      pending = pending.subarray(position);
+      pendingStart += position;
+      onProgress?.(Math.min(1, (pendingStart - info.audioStart) / (info.audioEnd - info.audioStart)));
+
+      // Let the UI breathe between chunks
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    return await peaks.finish(sampleRate, Math.max(frameIndex * samplesPerFrame, 1));
+  } catch (error) {
+    peaks.discard();
+    throw error;
+  }
+};
+
+const analyseWholeFile = async (bytes: Uint8Array, { onProgress }: LoadOptions): Promise<WaveformPeaks> => {
+  const decoded = await decodeBytes(bytes, FALLBACK_SAMPLE_RATE);
+  const peaks = createPeakSession(decoded.length);
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c).slice());
+  try {
+    await peaks.add(channels, 0, decoded.length);
+    onProgress?.(1);
+    return await peaks.finish(decoded.sampleRate, decoded.length);
+  } catch (error) {
+    peaks.discard();
+    throw error;
+  }
+};
+
+/**
+ * Computes the waveform peaks of a recording, or returns them from the cache.
+ *
+ * @param url The audio URL (server recording or blob URL)
+ * @param cacheKey Identifies this version of the file, e.g. url, size and modification date
+ */
+export const loadWaveformPeaks = async (url: string, cacheKey: string, options: LoadOptions = {}): Promise<WaveformPeaks> => {
+  const cached = peaksCache.get(cacheKey);
+  if (cached) {
+    // Refresh the entry's position in the LRU order
+    peaksCache.delete(cacheKey);
+    peaksCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const { source, head } = await openByteSource(url, options.signal);
+  const size = source.size ?? head.length;
+
+  let peaks = await analyseMp3(source, head, size, options);
+  if (!peaks) {
+    // Not an MP3 (local WAV, OGG...): decode it in one go
+    const bytes = size > head.length ? await source.read(0, size) : head;
+    peaks = await analyseWholeFile(bytes, options);
+  }
+
+  peaksCache.set(cacheKey, peaks);
+  if (peaksCache.size > CACHE_SIZE) {
+    peaksCache.delete(peaksCache.keys().next().value as string);
+  }
+
+  return peaks;
+};
+
+/**
+ * Picks the coarsest level that still has at least one peak per pixel.
+ */
+export const getPeakLevel = (peaks: WaveformPeaks, secondsPerPixel: number): PeakLevel => {
+  const samplesPerPixel = secondsPerPixel * peaks.sampleRate;
+  let selected = peaks.levels[0];
+  for (const level of peaks.levels) {
+    if (level.samplesPerPeak <= samplesPerPixel) selected = level;
+  }
+  return selected;
+};
@@ -0,0 +1,101 @@
+/// <reference lib="webworker" />
+import lameSource from 'lamejs/lame.all.js?raw';
+import type { EncoderRequest, EncoderResponse } from '@/utils/audioConversion';
+
+/**
+ * Encodes decoded PCM to MP3 (CBR, with lamejs) or WAV off the main thread,
+ * reporting progress as it goes.
+ */
+
+interface Mp3Encoder {
+  encodeBuffer(left: Int16Array, right?: Int16Array): Int8Array;
+  flush(): Int8Array;
+}
+
+// The npm entry of lamejs fails to load as an ES module ("MPEGMode is not defined"),
+// while the bundled lame.all.js defines everything in a single `lamejs` function
+const lamejs = new Function(`${lameSource}\nreturn lamejs;`)() as {
+  Mp3Encoder: new (channels: number, sampleRate: number, kbps: number) => Mp3Encoder;
+};
+
+const SAMPLES_PER_CHUNK = 1152 * 20;
+
+const post = (message: EncoderResponse, transfer: Transferable[] = []) => {
+  (self as unknown as DedicatedWorkerGlobalScope).postMessage(message, transfer);
+};
+
+const toInt16 = (samples: Float32Array) => {
+  const output = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+};
+
+const encodeMp3 = (channels: Float32Array[], sampleRate: number, bitrate: number) => {
+  // MP3 holds at most two channels
+  const pcm = channels.slice(0, 2).map(toInt16);
+  const encoder = new lamejs.Mp3Encoder(pcm.length, sampleRate, bitrate);
+  const parts: Int8Array[] = [];
+  const length = pcm[0].length;
+
+  for (let start = 0; start < length; start += SAMPLES_PER_CHUNK) {
+    const end = Math.min(length, start + SAMPLES_PER_CHUNK);
+    const chunk = encoder.encodeBuffer(pcm[0].subarray(start, end), pcm[1]?.subarray(start, end));
+    if (chunk.length > 0) parts.push(chunk);
+    post({ type: 'progress', ratio: end / length });
+  }
+
+  const last = encoder.flush();
+  if (last.length > 0) parts.push(last);
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+const encodeWav = (channels: Float32Array[], sampleRate: number) => {
+  const pcm = channels.map(toInt16);
+  const length = pcm[0].length;
+  const dataSize = length * pcm.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, pcm.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * pcm.length * 2, true);
+  view.setUint16(32, pcm.length * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const channel of pcm) {
+      view.setInt16(offset, channel[i], true);
+      offset += 2;
+    }
+    if (i % (SAMPLES_PER_CHUNK * 10) === 0) post({ type: 'progress', ratio: i / length });
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+self.onmessage = (event: MessageEvent<EncoderRequest>) => {
+  const { format, channels, sampleRate, bitrate } = event.data;
+  try {
+    const blob = format === 'mp3' ? encodeMp3(channels, sampleRate, bitrate) : encodeWav(channels, sampleRate);
+    post({ type: 'progress', ratio: 1 });
+    post({ type: 'done', blob });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,321 @@
+/// <reference lib="webworker" />
+import ffmpegScriptUrl from '@ffmpeg/ffmpeg/dist/ffmpeg.min.js?url';
+import { cutMp3Frames } from '@/utils/mp3Cut';
+import { parseMp3Info } from '@/utils/mp3Parser';
+import { getSeekRange, Mp3SeekIndex } from '@/utils/mp3SeekIndex';
+import { PeakAccumulator } from '@/utils/peakAccumulator';
+import { createZip } from '@/utils/zipWriter';
+import type {
+  FetchResult,
+  FFmpegCommand,
+  FFmpegResponse,
+  ProcessingMessage,
+  ProcessingResponse,
+  TimeSpan,
+  TranscodeResult,
+  TrimResult
+} from '@/utils/audioProcessing';
+
+/**
+ * Downloads, cuts, re-encodes and analyses recordings and builds ZIP files for the audio
+ * processing service (see utils/audioProcessing.ts), so that none of it blocks the page.
+ * ffmpeg runs in a worker of its own, started from this one (see ffmpeg.worker.ts).
+ */
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// A recording, or the frames of it covering a span
+interface StoredRecording {
+  bytes: Uint8Array;
+  offset: number; // start of the first frame, in seconds from the start of the file
+  encoderDelay: number | null; // in samples, from the LAME tag
+}
+
+// Samples an MP3 decoder outputs before the audio, which players drop along with the encoder delay
+const DECODER_DELAY = 529;
+
+// Recordings downloaded for exports until released, keyed by URL and span
+const recordings = new Map<string, StoredRecording>();
+const peakSessions = new Map<number, PeakAccumulator>();
+const controllers = new Map<number, AbortController>();
+
+const post = (message: ProcessingResponse, transfer: Transferable[] = []) => {
+  (self as unknown as DedicatedWorkerGlobalScope).postMessage(message, transfer);
+};
+
+const getFileName = (url: string) => decodeURIComponent(new URL(url).pathname.split('/').pop() || url);
+
+const request = async (url: string, signal: AbortSignal, headers: HeadersInit = {}) => {
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw new HttpError(`Le serveur a répondu ${response.status} pour ${getFileName(url)}`, response.status);
+  }
+  return response;
+};
+
+// Reads a response body, reporting the share received when the server gives its size
+const readBody = async (response: Response, onProgress: (ratio: number) => void) => {
+  const total = Number(response.headers.get('Content-Length'));
+  if (!response.body || !total) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress(Math.min(1, received / total));
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return data;
+};
+
+const getStored = (key: string) => {
+  const recording = recordings.get(key);
+  if (!recording) throw new Error(`Enregistrement non téléchargé : ${getFileName(key)}`);
+  return recording;
+};
+
+const downloadWhole = async (url: string, signal: AbortSignal, onProgress: (ratio: number) => void): Promise<StoredRecording> => {
+  const bytes = await readBody(await request(url, signal), onProgress);
+  if (bytes.length === 0) throw new Error(`Enregistrement vide : ${getFileName(url)}`);
+  return { bytes, offset: 0, encoderDelay: parseMp3Info(bytes, bytes.length)?.encoderDelay ?? null };
+};
+
+// Fetches the frames covering a span with a Range request, placed with the recording's seek index
+const downloadSpan = async (
+  url: string,
+  span: TimeSpan,
+  index: Mp3SeekIndex,
+  signal: AbortSignal,
+  onProgress: (ratio: number) => void
+): Promise<StoredRecording> => {
+  const range = getSeekRange(index, span.start, span.end);
+  const response = await request(url, signal, { Range: `bytes=${range.start}-${range.end - 1}` });
+  const bytes = await readBody(response, onProgress);
+
+  // The server ignored the range and sent the whole file
+  if (response.status !== 206) {
+    return { bytes, offset: 0, encoderDelay: parseMp3Info(bytes, bytes.length)?.encoderDelay ?? null };
+  }
+  return { bytes, offset: range.time, encoderDelay: index.encoderDelay };
+};
+
+// The seek index of a recording, or null when the server has none: the recording is then downloaded whole
+const fetchSeekIndex = async (indexUrl: string, signal: AbortSignal) => {
+  try {
+    const index = await (await request(indexUrl, signal)).json() as Mp3SeekIndex;
+    return index.offsets?.length > 0 ? index : null;
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('No seek index, downloading the whole recording:', indexUrl, error);
+    return null;
+  }
+};
+
+// The ffmpeg worker is started on first use; a cancelled command terminates it with its files
+let ffmpegWorker: Worker | null = null;
+// ffmpeg.wasm runs one command at a time: commands are chained
+let ffmpegQueue: Promise<unknown> = Promise.resolve();
+
+const stopFFmpeg = () => {
+  ffmpegWorker?.terminate();
+  ffmpegWorker = null;
+};
+
+const runFFmpeg = (command: Omit<FFmpegCommand, 'scriptUrl'>, signal: AbortSignal, onProgress: (ratio: number, time: number | null) => void) => {
+  const run = () => new Promise<TranscodeResult>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Commande ffmpeg annulée'));
+      return;
+    }
+
+    ffmpegWorker ??= new Worker(new URL('./ffmpeg.worker.ts', import.meta.url));
+    const target = ffmpegWorker;
+    const finish = () => {
+      signal.removeEventListener('abort', cancel);
+      target.onmessage = null;
+      target.onerror = null;
+    };
+    const cancel = () => {
+      finish();
+      stopFFmpeg();
+      reject(new Error('Commande ffmpeg annulée'));
+    };
+
+    signal.addEventListener('abort', cancel, { once: true });
+    target.onmessage = (event: MessageEvent<FFmpegResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.ratio, message.time);
+        return;
+      }
+      finish();
+      if (message.type === 'done') resolve({ data: message.data, log: message.log });
+      else reject(new Error(message.message));
+    };
+    target.onerror = (event) => {
+      finish();
+      stopFFmpeg();
+      reject(new Error(event.message || "ffmpeg s'est arrêté"));
+    };
+    target.postMessage({ ...command, scriptUrl: new URL(ffmpegScriptUrl, self.location.href).href } satisfies FFmpegCommand, [command.input.buffer]);
+  });
+
+  const result = ffmpegQueue.then(run);
+  ffmpegQueue = result.catch(() => undefined);
+  return result;
+};
+
+const getPeakSession = (session: number) => {
+  const accumulator = peakSessions.get(session);
+  if (!accumulator) throw new Error(`Analyse de forme d'onde inconnue : ${session}`);
+  return accumulator;
+};
+
+// Runs a request and returns its result with the buffers to transfer back
+const handle = async (message: ProcessingMessage, signal: AbortSignal): Promise<[unknown, Transferable[]]> => {
+  switch (message.type) {
+    case 'fetch': {
+      const { url, range } = message;
+      const response = await request(url, signal, range ? { Range: `bytes=${range.start}-${range.end - 1}` } : {});
+      const data = new Uint8Array(await response.arrayBuffer());
+      // Servers without Range support send the whole file
+      const total = Number(response.headers.get('Content-Range')?.split('/')[1]);
+      const result: FetchResult = {
+        data,
+        status: response.status,
+        size: response.status === 206 ? (Number.isFinite(total) ? total : null) : data.length
+      };
+      return [result, [data.buffer]];
+    }
+
+    case 'store': {
+      const { url, span, indexUrl } = message;
+      const key = span && indexUrl ? `${url}#t=${span.start},${span.end}` : url;
+      if (!recordings.has(key)) {
+        const onProgress = (ratio: number) => post({ type: 'progress', id: message.id, ratio });
+        const index = span && indexUrl ? await fetchSeekIndex(indexUrl, signal) : null;
+        recordings.set(key, index
+          ? await downloadSpan(url, span!, index, signal, onProgress)
+          : await downloadWhole(url, signal, onProgress));
+      }
+      return [key, []];
+    }
+
+    case 'release':
+      message.keys.forEach((key) => recordings.delete(key));
+      return [undefined, []];
+
+    case 'trim': {
+      const stored = message.sources.map((source) => getStored(source.key));
+      const sources = stored.map((recording, index) => ({
+        bytes: recording.bytes,
+        offset: message.sources[index].offset + recording.offset
+      }));
+      const info = sources.map(({ bytes }) => parseMp3Info(bytes, bytes.length));
+      if (info.some((item) => !item)) return [null, []];
+
+      const cut = cutMp3Frames(sources, message.start, message.end);
+      const tag = message.tag ? new Uint8Array(message.tag) : new Uint8Array(0);
+      const data = new Uint8Array(tag.length + cut.chunks.reduce((total, chunk) => total + chunk.length, 0));
+      data.set(tag);
+      let offset = tag.length;
+      cut.chunks.forEach((chunk) => {
+        data.set(chunk, offset);
+        offset += chunk.length;
+      });
+
+      const { header } = info[0]!;
+      const result: TrimResult = {
+        data,
+        in: cut.in,
+        out: cut.out,
+        bitrate: header.bitrate,
+        sampleRate: header.sampleRate,
+        frameDuration: header.samplesPerFrame / header.sampleRate,
+        startPadding: stored[0].encoderDelay !== null ? (stored[0].encoderDelay + DECODER_DELAY) / header.sampleRate : 0
+      };
+      return [result, [data.buffer]];
+    }
+
+    case 'peaks-start':
+      peakSessions.set(message.session, new PeakAccumulator(message.estimatedSamples));
+      return [undefined, []];
+
+    case 'peaks-add':
+      getPeakSession(message.session).add(message.channels, message.startSample, message.length);
+      return [undefined, []];
+
+    case 'peaks-finish': {
+      const peaks = getPeakSession(message.session).finish(message.sampleRate, message.totalSamples);
+      peakSessions.delete(message.session);
+      return [peaks, peaks.levels.map((level) => level.data.buffer)];
+    }
+
+    case 'peaks-discard':
+      peakSessions.delete(message.session);
+      return [undefined, []];
+
+    case 'zip':
+      return [createZip(message.entries), []];
+
+    case 'transcode': {
+      const { input, inputName, args, outputName, duration } = message;
+      // A stored recording stays here for the other requests: ffmpeg gets a copy
+      const bytes = 'key' in input ? getStored(input.key).bytes.slice() : input.data;
+      const result = await runFFmpeg({ input: bytes, inputName, args, outputName }, signal, (ratio, time) => {
+        const progress = duration && time !== null ? time / duration : ratio;
+        post({ type: 'progress', id: message.id, ratio: Math.min(1, Math.max(0, progress)) });
+      });
+      return [result, result.data ? [result.data.buffer] : []];
+    }
+
+    default:
+      throw new Error(`Requête inconnue : ${message.type}`);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<ProcessingMessage>) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(message.id, controller);
+  try {
+    const [result, transfer] = await handle(message, controller.signal);
+    post({ type: 'result', id: message.id, result }, transfer);
+  } catch (error) {
+    post({
+      type: 'error',
+      id: message.id,
+      message: error instanceof Error ? error.message : String(error),
+      // A fetch that fails without a response means the server cannot be reached
+      status: error instanceof HttpError ? error.status : error instanceof TypeError ? 0 : null,
+      aborted: controller.signal.aborted
+    });
+  } finally {
+    controllers.delete(message.id);
+  }
+};
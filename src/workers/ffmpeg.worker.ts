@@ -0,0 +1,71 @@
+/// <reference lib="webworker" />
+import type { createFFmpeg as CreateFFmpeg, FFmpeg as FFmpegInstance } from '@ffmpeg/ffmpeg';
+import type { FFmpegCommand, FFmpegResponse } from '@/utils/audioProcessing';
+
+/**
+ * Runs ffmpeg.wasm for the audio processing worker, one command at a time.
+ * A classic worker without imports: ffmpeg.wasm 0.11 loads its core with importScripts,
+ * which module workers lack, so the library itself is loaded from the URL the commands give.
+ */
+
+// Defined by the ffmpeg.wasm script
+declare const FFmpeg: { createFFmpeg: typeof CreateFFmpeg };
+
+let ffmpeg: FFmpegInstance | null = null;
+let loadPromise: Promise<void> | null = null;
+
+const post = (message: FFmpegResponse, transfer: Transferable[] = []) => {
+  (self as unknown as DedicatedWorkerGlobalScope).postMessage(message, transfer);
+};
+
+// Loads ffmpeg.wasm and its core once
+const loadFFmpeg = (scriptUrl: string) => {
+  if (!ffmpeg) {
+    importScripts(scriptUrl);
+    ffmpeg = FFmpeg.createFFmpeg({ log: true });
+  }
+  loadPromise ??= ffmpeg.load().catch((error) => {
+    loadPromise = null;
+    throw error;
+  });
+  return loadPromise.then(() => ffmpeg!);
+};
+
+// Last line of an ffmpeg log telling what went wrong, if any
+const getFFmpegError = (log: string[]) =>
+  [...log].reverse().find((line) => /error|invalid|no such file|not found|failed|unable/i.test(line)) ?? null;
+
+// Leaves the instance ready for the next command, without this one's files
+const removeFiles = (instance: FFmpegInstance, names: (string | null)[]) => {
+  instance.setLogger(() => undefined);
+  instance.setProgress(() => undefined);
+  const files = instance.FS('readdir', '/');
+  names.forEach((name) => {
+    if (name && files.includes(name)) instance.FS('unlink', name);
+  });
+};
+
+self.onmessage = async (event: MessageEvent<FFmpegCommand>) => {
+  const { scriptUrl, input, inputName, args, outputName } = event.data;
+  const log: string[] = [];
+
+  try {
+    const instance = await loadFFmpeg(scriptUrl);
+    instance.setLogger(({ message }) => log.push(message));
+    instance.setProgress(({ ratio, time }: { ratio: number; time?: number }) => post({ type: 'progress', ratio, time: time ?? null }));
+    instance.FS('writeFile', inputName, input);
+    await instance.run(...args);
+
+    // ffmpeg.wasm resolves even when the command fails: the missing output tells
+    if (outputName && !instance.FS('readdir', '/').includes(outputName)) {
+      throw new Error(getFFmpegError(log) ?? "ffmpeg n'a produit aucun fichier");
+    }
+
+    const data = outputName ? instance.FS('readFile', outputName) : null;
+    post({ type: 'done', data, log }, data ? [data.buffer] : []);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    if (ffmpeg?.isLoaded()) removeFiles(ffmpeg, [inputName, outputName]);
+  }
+};
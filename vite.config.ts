@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Recording index service (npm run server)
+      "/api": "http://localhost:3001",
+    },
   },
   plugins: [
     react(),